@@ -0,0 +1,69 @@
+/**
+ * Async iterator over pushed values, backing messages() and states().
+ * Values pushed faster than they are consumed are buffered.
+ */
+export class AsyncQueue<T> implements AsyncIterableIterator<T> {
+  private buffer: T[] = [];
+  private waiting: ((result: IteratorResult<T>) => void)[] = [];
+  private ended = false;
+
+  /**
+   * @param onEnd - Called once when the iterator ends, to release its source
+   */
+  constructor(private readonly onEnd: () => void) {}
+
+  /**
+   * Delivers a value to a waiting consumer, or buffers it
+   */
+  public push(value: T): void {
+    if (this.ended) {
+      return;
+    }
+
+    const resolve = this.waiting.shift();
+    if (resolve) {
+      resolve({ value, done: false });
+    } else {
+      this.buffer.push(value);
+    }
+  }
+
+  /**
+   * Ends the iterator once the buffered values have been consumed
+   */
+  public end(): void {
+    if (this.ended) {
+      return;
+    }
+
+    this.ended = true;
+    this.onEnd();
+    for (const resolve of this.waiting.splice(0)) {
+      resolve({ value: undefined, done: true });
+    }
+  }
+
+  public next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length > 0) {
+      return Promise.resolve({ value: this.buffer.shift() as T, done: false });
+    }
+    if (this.ended) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  /**
+   * Ends the iterator right away, dropping buffered values.
+   * Called when a for await loop exits early.
+   */
+  public return(): Promise<IteratorResult<T>> {
+    this.buffer = [];
+    this.end();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+}
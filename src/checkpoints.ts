@@ -0,0 +1,210 @@
+import { Checkpoint, CheckpointStore, CheckpointStoreFactory } from './types';
+
+/** Name of the IndexedDB database used by IndexedDBCheckpointStore */
+const DATABASE_NAME = 'tab-chief';
+/** Object store holding the checkpoints by [channelName, key] and latest terms by [channelName] */
+const OBJECT_STORE_NAME = 'checkpoints';
+/** Prefix for localStorage keys used by LocalStorageCheckpointStore */
+const STORAGE_KEY_PREFIX = 'tab-chief:checkpoint:';
+/** Prefix for the localStorage key holding the latest term of a channel */
+const TERM_KEY_PREFIX = 'tab-chief:term:';
+
+/**
+ * Term of the latest Chief of a channel, recorded when it took over
+ */
+interface TermRecord {
+  term: number;
+  timestamp: number;
+}
+
+/**
+ * Returns true if the record shows that a newer Chief took over after the writer's
+ * leadership began. Terms restart once every tab has closed, so a higher term
+ * recorded before that only belongs to an earlier session.
+ */
+function isSuperseded(
+  record: TermRecord | null | undefined,
+  term: number,
+  leaderSince: number
+): record is TermRecord {
+  return !!record && record.term > term && record.timestamp >= leaderSince;
+}
+
+/**
+ * Returns the reason to reject a checkpoint write, or null if it may be stored
+ */
+function checkWrite(
+  latest: TermRecord | null | undefined,
+  current: Checkpoint | null | undefined,
+  checkpoint: Checkpoint,
+  leaderSince: number,
+  isLeader: () => boolean
+): Error | null {
+  const rejected =
+    `[TabChief] Checkpoint "${checkpoint.key}" of term ${checkpoint.term} was rejected`;
+  if (isSuperseded(latest, checkpoint.term, leaderSince)) {
+    return new Error(`${rejected}, a newer Chief took over in term ${latest.term}`);
+  }
+  if (isSuperseded(current, checkpoint.term, leaderSince)) {
+    return new Error(`${rejected}, a newer Chief wrote it in term ${current.term}`);
+  }
+  if (!isLeader()) {
+    return new Error(`${rejected}, the writing tab is no longer Chief`);
+  }
+  return null;
+}
+
+/**
+ * Wraps an IndexedDB request in a Promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Checkpoint store backed by IndexedDB (default where available).
+ * Available in workers too, so it also serves a TabChiefCoordinator.
+ */
+export class IndexedDBCheckpointStore implements CheckpointStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly channelName: string) {}
+
+  public async read(key: string): Promise<Checkpoint | null> {
+    const database = await this.open();
+    const transaction = database.transaction(OBJECT_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(OBJECT_STORE_NAME).get([this.channelName, key]);
+    const checkpoint = await promisifyRequest(request);
+    return (checkpoint as Checkpoint | undefined) ?? null;
+  }
+
+  public async claimTerm(term: number, leaderSince: number): Promise<void> {
+    const database = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(OBJECT_STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(OBJECT_STORE_NAME);
+      const request = store.get([this.channelName]);
+
+      request.onsuccess = () => {
+        // A newer Chief already took over; our own writes will be rejected
+        if (!isSuperseded(request.result as TermRecord | undefined, term, leaderSince)) {
+          store.put({ term, timestamp: Date.now() }, [this.channelName]);
+        }
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  public async write(
+    checkpoint: Checkpoint,
+    leaderSince: number,
+    isLeader: () => boolean
+  ): Promise<void> {
+    const database = await this.open();
+
+    // Check and put within one transaction, so a concurrent write cannot slip in between
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(OBJECT_STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(OBJECT_STORE_NAME);
+      const id = [this.channelName, checkpoint.key];
+      const latestRequest = store.get([this.channelName]);
+      const request = store.get(id);
+
+      // Requests of a transaction complete in order, so both results are available here
+      request.onsuccess = () => {
+        const error = checkWrite(
+          latestRequest.result as TermRecord | undefined,
+          request.result as Checkpoint | undefined,
+          checkpoint,
+          leaderSince,
+          isLeader
+        );
+        if (error) {
+          reject(error);
+          transaction.abort();
+          return;
+        }
+        store.put(checkpoint, id);
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(DATABASE_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(OBJECT_STORE_NAME);
+      };
+      this.database = promisifyRequest(request);
+      // Allow a later call to retry if opening failed (e.g. storage disabled)
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+}
+
+/**
+ * Checkpoint store backed by localStorage.
+ * Fallback for environments without IndexedDB; not available in workers.
+ */
+export class LocalStorageCheckpointStore implements CheckpointStore {
+  private readonly prefix: string;
+  private readonly termKey: string;
+
+  constructor(channelName: string) {
+    this.prefix = `${STORAGE_KEY_PREFIX}${channelName}:`;
+    this.termKey = `${TERM_KEY_PREFIX}${channelName}`;
+  }
+
+  public async read(key: string): Promise<Checkpoint | null> {
+    const item = localStorage.getItem(`${this.prefix}${key}`);
+    return item === null ? null : (JSON.parse(item) as Checkpoint);
+  }
+
+  public async claimTerm(term: number, leaderSince: number): Promise<void> {
+    if (!isSuperseded(this.readLatestTerm(), term, leaderSince)) {
+      const record: TermRecord = { term, timestamp: Date.now() };
+      localStorage.setItem(this.termKey, JSON.stringify(record));
+    }
+  }
+
+  public async write(
+    checkpoint: Checkpoint,
+    leaderSince: number,
+    isLeader: () => boolean
+  ): Promise<void> {
+    const current = await this.read(checkpoint.key);
+    const error = checkWrite(this.readLatestTerm(), current, checkpoint, leaderSince, isLeader);
+    if (error) {
+      throw error;
+    }
+    localStorage.setItem(`${this.prefix}${checkpoint.key}`, JSON.stringify(checkpoint));
+  }
+
+  /**
+   * Returns the term of the channel's latest Chief, or null if none was recorded
+   */
+  private readLatestTerm(): TermRecord | null {
+    const item = localStorage.getItem(this.termKey);
+    return item === null ? null : (JSON.parse(item) as TermRecord);
+  }
+}
+
+/**
+ * Default checkpoint store: IndexedDB when available, otherwise localStorage
+ */
+export const createCheckpointStore: CheckpointStoreFactory = (channelName) =>
+  typeof indexedDB !== 'undefined'
+    ? new IndexedDBCheckpointStore(channelName)
+    : new LocalStorageCheckpointStore(channelName);
@@ -0,0 +1,130 @@
+/**
+ * Source of timers for heartbeats and election timeouts
+ */
+export interface Clock {
+  setTimeout(callback: () => void, delay: number): ClockHandle;
+  setInterval(callback: () => void, delay: number): ClockHandle;
+  clearTimeout(handle: ClockHandle): void;
+  clearInterval(handle: ClockHandle): void;
+  /** Releases resources held by the clock */
+  dispose(): void;
+}
+
+/** Opaque timer handle returned by a Clock */
+export type ClockHandle = ReturnType<typeof setTimeout> | number;
+
+/**
+ * Clock backed by the main thread's timers (default)
+ */
+export const mainThreadClock: Clock = {
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  setInterval: (callback, delay) => setInterval(callback, delay),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+  clearInterval: (handle) => clearInterval(handle as ReturnType<typeof setInterval>),
+  dispose: () => {},
+};
+
+/** Script of the worker running the timers; posts the timer id when it fires */
+const WORKER_SOURCE = `
+const timers = new Map();
+self.onmessage = (event) => {
+  const { op, id, delay } = event.data;
+  if (op === 'clear') {
+    clearTimeout(timers.get(id));
+    clearInterval(timers.get(id));
+    timers.delete(id);
+  } else if (op === 'interval') {
+    timers.set(id, setInterval(() => self.postMessage(id), delay));
+  } else {
+    timers.set(id, setTimeout(() => {
+      timers.delete(id);
+      self.postMessage(id);
+    }, delay));
+  }
+};
+`;
+
+/**
+ * Clock running its timers in a dedicated Worker.
+ * Worker timers are not subject to the intensive throttling browsers apply
+ * to the main thread of background tabs.
+ */
+export class WorkerClock implements Clock {
+  private readonly worker: Worker;
+  private readonly url: string;
+  private callbacks: Map<number, { callback: () => void; repeat: boolean }> = new Map();
+  private nextId = 1;
+
+  constructor() {
+    this.url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+    try {
+      this.worker = new Worker(this.url);
+    } catch (error) {
+      URL.revokeObjectURL(this.url);
+      throw error;
+    }
+    this.worker.onmessage = (event: MessageEvent<number>) => {
+      const timer = this.callbacks.get(event.data);
+      if (!timer) {
+        return;
+      }
+      if (!timer.repeat) {
+        this.callbacks.delete(event.data);
+      }
+      timer.callback();
+    };
+  }
+
+  public setTimeout(callback: () => void, delay: number): number {
+    return this.schedule(callback, delay, false);
+  }
+
+  public setInterval(callback: () => void, delay: number): number {
+    return this.schedule(callback, delay, true);
+  }
+
+  public clearTimeout(handle: ClockHandle): void {
+    this.clear(handle as number);
+  }
+
+  public clearInterval(handle: ClockHandle): void {
+    this.clear(handle as number);
+  }
+
+  public dispose(): void {
+    this.callbacks.clear();
+    this.worker.onmessage = null;
+    this.worker.terminate();
+    URL.revokeObjectURL(this.url);
+  }
+
+  private schedule(callback: () => void, delay: number, repeat: boolean): number {
+    const id = this.nextId++;
+    this.callbacks.set(id, { callback, repeat });
+    this.worker.postMessage({ op: repeat ? 'interval' : 'timeout', id, delay });
+    return id;
+  }
+
+  private clear(id: number): void {
+    if (this.callbacks.delete(id)) {
+      this.worker.postMessage({ op: 'clear', id });
+    }
+  }
+}
+
+/**
+ * Creates a WorkerClock, or returns null if Workers are unavailable.
+ * Throws if the worker cannot be started (e.g. blocked by a Content Security Policy).
+ */
+export function createWorkerClock(): Clock | null {
+  if (
+    typeof Worker === 'undefined' ||
+    typeof Blob === 'undefined' ||
+    typeof URL === 'undefined' ||
+    typeof URL.createObjectURL !== 'function'
+  ) {
+    return null;
+  }
+
+  return new WorkerClock();
+}
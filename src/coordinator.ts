@@ -0,0 +1,320 @@
+/**
+ * tab-chief/coordinator
+ *
+ * Runs inside a SharedWorker and acts as the permanent Chief for all tabs
+ * that connect to it via the `coordinator` option.
+ *
+ * @packageDocumentation
+ */
+
+import { TabChief } from './core';
+import { PORT_DISCONNECT } from './transports';
+import { SharedState } from './shared-state';
+import {
+  ChannelMessage,
+  Checkpoint,
+  CoordinatorOptions,
+  ErrorCallback,
+  EventMap,
+  ExclusiveTask,
+  MessageCallback,
+  RequestHandler,
+  TaskHealth,
+  TaskOptions,
+  Transport,
+  TransportListener,
+} from './types';
+
+/**
+ * TabChiefCoordinator - Chief hosted by a SharedWorker
+ *
+ * Hosts exclusive tasks that outlive any single tab, relays messages between
+ * the connected tabs and answers them with the same messaging API as a Chief tab.
+ */
+export class TabChiefCoordinator<Events extends object = EventMap> {
+  private readonly chief: TabChief;
+  private ports: Set<MessagePort> = new Set();
+  private listeners: TransportListener[] = [];
+  private boundConnect: ((event: Event) => void) | null = null;
+
+  /**
+   * @param options - Configuration options
+   */
+  constructor(options?: CoordinatorOptions) {
+    const hub: Transport = {
+      send: (message) => {
+        for (const port of this.ports) {
+          port.postMessage(message);
+        }
+      },
+      subscribe: (listener) => {
+        this.listeners.push(listener);
+        return () => {
+          const index = this.listeners.indexOf(listener);
+          if (index !== -1) {
+            this.listeners.splice(index, 1);
+          }
+        };
+      },
+      close: () => {},
+    };
+
+    this.chief = new TabChief({ ...options, transport: () => hub }, undefined, true);
+  }
+
+  /**
+   * Returns the identifier of the coordinator, reported as chiefId by the tabs
+   */
+  public get id(): string {
+    return this.chief.id;
+  }
+
+  /**
+   * Returns the number of connected tabs
+   */
+  public get connections(): number {
+    return this.ports.size;
+  }
+
+  /**
+   * Becomes Chief, runs the exclusive tasks and accepts SharedWorker connections
+   */
+  public start(): void {
+    if (!this.boundConnect && typeof globalThis.addEventListener === 'function') {
+      this.boundConnect = (event: Event) => {
+        const [port] = (event as MessageEvent).ports;
+        if (port) {
+          this.connect(port);
+        }
+      };
+      globalThis.addEventListener('connect', this.boundConnect);
+    }
+
+    this.chief.start();
+  }
+
+  /**
+   * Steps down and runs the cleanups of the exclusive tasks.
+   * Connected tabs keep exchanging messages but no longer have a Chief.
+   *
+   * @returns Promise resolving once async cleanups have settled
+   */
+  public stop(): Promise<void> {
+    if (this.boundConnect) {
+      globalThis.removeEventListener('connect', this.boundConnect);
+      this.boundConnect = null;
+    }
+
+    return this.chief.stop();
+  }
+
+  /**
+   * Connects a tab. Called for every SharedWorker connection once started.
+   *
+   * @param port - Port of the connecting tab
+   */
+  public connect(port: MessagePort): void {
+    this.ports.add(port);
+    port.onmessage = (event: MessageEvent<ChannelMessage | typeof PORT_DISCONNECT>) => {
+      const message = event.data;
+      if (message === PORT_DISCONNECT) {
+        this.ports.delete(port);
+        port.onmessage = null;
+        port.close();
+        return;
+      }
+
+      // Relay to the other tabs, as a broadcast channel would
+      for (const other of this.ports) {
+        if (other !== port) {
+          other.postMessage(message);
+        }
+      }
+      for (const listener of [...this.listeners]) {
+        listener(message);
+      }
+    };
+  }
+
+  /**
+   * Registers a task hosted by the coordinator.
+   * Tasks run once started and are cleaned up by stop().
+   *
+   * @param task - Function to run, should return cleanup function
+   * @param options - Supervision policy (abdicateAfter does not apply to the coordinator)
+   * @returns Function that unregisters the task and runs its cleanup
+   */
+  public runExclusive(task: ExclusiveTask, options?: TaskOptions): () => void {
+    return this.chief.runExclusive(task, options);
+  }
+
+  /**
+   * Returns the health of the hosted tasks, in registration order
+   */
+  public getTaskHealth(): TaskHealth[] {
+    return this.chief.getTaskHealth();
+  }
+
+  /**
+   * Persists a value for hosted tasks, tagged with the coordinator's id and term.
+   * Rejects once the coordinator is stopped.
+   *
+   * @param key - Identifier shared by all tabs
+   * @param value - Value to persist
+   */
+  public checkpoint<T>(key: string, value: T): Promise<void> {
+    return this.chief.checkpoint(key, value);
+  }
+
+  /**
+   * Reads the last checkpoint written under a key, by the coordinator or a Chief tab
+   *
+   * @param key - Identifier shared by all tabs
+   */
+  public readCheckpoint<T = unknown>(key: string): Promise<Checkpoint<T> | null> {
+    return this.chief.readCheckpoint<T>(key);
+  }
+
+  /**
+   * Called when a hosted task, a cleanup or a callback fails
+   *
+   * @param callback - Function to call with the error and where it occurred
+   * @returns Function that removes the callback
+   */
+  public onError(callback: ErrorCallback): () => void {
+    return this.chief.onError(callback);
+  }
+
+  /**
+   * Removes an error callback
+   *
+   * @param callback - The callback function to remove
+   */
+  public offError(callback: ErrorCallback): void {
+    this.chief.offError(callback);
+  }
+
+  /**
+   * Broadcasts a message to all tabs
+   *
+   * @param data - Data to broadcast
+   */
+  public postMessage<T>(data: T): void;
+  /**
+   * Broadcasts a payload on a topic to all tabs
+   *
+   * @param topic - Topic from the event map
+   * @param payload - Payload of the topic (pass undefined for void topics)
+   */
+  public postMessage<K extends keyof Events & string>(topic: K, payload: Events[K]): void;
+  public postMessage(...args: [data: unknown] | [topic: string, payload: unknown]): void {
+    if (args.length === 2) {
+      this.chief.postMessage(args[0], args[1]);
+    } else {
+      this.chief.postMessage(args[0]);
+    }
+  }
+
+  /**
+   * Sends a message to a single tab
+   *
+   * @param tabId - Id of the receiving tab
+   * @param data - Data to send
+   */
+  public sendTo<T>(tabId: string, data: T): void;
+  /**
+   * Sends a payload on a topic to a single tab
+   *
+   * @param tabId - Id of the receiving tab
+   * @param topic - Topic from the event map
+   * @param payload - Payload of the topic
+   */
+  public sendTo<K extends keyof Events & string>(tabId: string, topic: K, payload: Events[K]): void;
+  public sendTo(tabId: string, ...args: [data: unknown] | [topic: string, payload: unknown]): void {
+    if (args.length === 2) {
+      this.chief.sendTo(tabId, args[0], args[1]);
+    } else {
+      this.chief.sendTo(tabId, args[0]);
+    }
+  }
+
+  /**
+   * Subscribes to messages from the tabs that were sent without a topic
+   *
+   * @param callback - Function to call when a message is received
+   * @returns Function that removes the callback
+   */
+  public onMessage<T>(callback: MessageCallback<T>): () => void;
+  /**
+   * Subscribes to the messages of a single topic
+   *
+   * @param topic - Topic from the event map
+   * @param callback - Function to call with the topic's payload
+   * @returns Function that removes the callback
+   */
+  public onMessage<K extends keyof Events & string>(
+    topic: K,
+    callback: MessageCallback<Events[K]>
+  ): () => void;
+  public onMessage(
+    topicOrCallback: string | MessageCallback<unknown>,
+    topicCallback?: MessageCallback<unknown>
+  ): () => void {
+    if (typeof topicOrCallback === 'string') {
+      return this.chief.onMessage(topicOrCallback, topicCallback as MessageCallback<unknown>);
+    }
+    return this.chief.onMessage(topicOrCallback);
+  }
+
+  /**
+   * Removes a message callback
+   *
+   * @param callback - The callback function to remove
+   */
+  public offMessage<T>(callback: MessageCallback<T>): void;
+  public offMessage<K extends keyof Events & string>(
+    topic: K,
+    callback: MessageCallback<Events[K]>
+  ): void;
+  public offMessage(
+    topicOrCallback: string | MessageCallback<unknown>,
+    topicCallback?: MessageCallback<unknown>
+  ): void {
+    if (typeof topicOrCallback === 'string') {
+      this.chief.offMessage(topicOrCallback, topicCallback as MessageCallback<unknown>);
+    } else {
+      this.chief.offMessage(topicOrCallback);
+    }
+  }
+
+  /**
+   * Registers a handler for requests sent by tabs via request()
+   *
+   * @param method - Method name
+   * @param handler - Function returning the result (or a Promise of it)
+   */
+  public handle<P = unknown, R = unknown>(method: string, handler: RequestHandler<P, R>): void {
+    this.chief.handle(method, handler);
+  }
+
+  /**
+   * Removes the handler for a method
+   *
+   * @param method - Method name
+   */
+  public unhandle(method: string): void {
+    this.chief.unhandle(method);
+  }
+
+  /**
+   * Creates (or returns the existing) state replicated from the coordinator to all tabs
+   *
+   * @param key - Identifier shared by all tabs
+   * @param initialValue - Initial value
+   */
+  public createSharedState<T>(key: string, initialValue: T): SharedState<T> {
+    return this.chief.createSharedState(key, initialValue);
+  }
+}
+
+export type { CoordinatorOptions } from './types';
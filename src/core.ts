@@ -1,25 +1,172 @@
 import {
   TabChiefOptions,
+  ElectionMode,
+  TimerSource,
+  RoleBalancing,
+  Checkpoint,
+  CheckpointStore,
+  CheckpointStoreFactory,
   CleanupFunction,
   ExclusiveTask,
+  TaskOptions,
+  TaskStatus,
+  TaskHealth,
+  ErrorSource,
+  ErrorContext,
+  ErrorCallback,
   MessageCallback,
+  EventMap,
+  RequestHandler,
+  RequestOptions,
+  WaitOptions,
+  StartOptions,
+  AbdicateOptions,
   StateChangeCallback,
   LeadershipCallback,
+  IteratorOptions,
+  ReceivedMessage,
+  StateObserver,
+  Subscription,
+  ChiefChangeCallback,
+  ChiefConflict,
+  ConflictCallback,
+  MetricName,
+  MetricCallback,
+  Logger,
+  LogLevel,
+  LogFields,
+  TabChiefStats,
+  VersionPolicy,
+  VersionMismatch,
+  VersionMismatchCallback,
+  TabPresenceCallback,
+  TabInfo,
+  TabMetadata,
   MessageType,
   ChannelMessage,
   TabState,
-  BaseMessage,
   DataMessage,
+  HeartbeatMessage,
+  VictoryMessage,
+  RequestMessage,
+  ResponseMessage,
+  StatePatchMessage,
+  StateSyncMessage,
+  StateSnapshotMessage,
+  ReplayMessage,
+  MessageInfo,
+  PresenceMessage,
+  HandoffMessage,
+  TransferMessage,
+  TransferAcceptMessage,
+  LeadershipRequestMessage,
+  Transport,
+  TransportFactory,
+  TransportContext,
+  TransportListener,
 } from './types';
+import { BroadcastChannelTransport, SharedWorkerTransport } from './transports';
+import { SharedState, SharedStateHost } from './shared-state';
+import { Clock, ClockHandle, createWorkerClock, mainThreadClock } from './clock';
+import { AsyncQueue } from './async-queue';
+import { consoleLogger } from './logger';
+import { createCheckpointStore } from './checkpoints';
 
 /** Default configuration values */
 const DEFAULT_CHANNEL_NAME = 'tab-chief-default';
 const DEFAULT_HEARTBEAT_INTERVAL = 1000;
 const DEFAULT_ELECTION_TIMEOUT = 3000;
+const DEFAULT_CLEANUP_TIMEOUT = 3000;
+const DEFAULT_PRIORITY = 0;
+const DEFAULT_PRESENCE_INTERVAL = 5000;
+const DEFAULT_VISIBILITY_HANDOFF_DELAY = 5000;
+const DEFAULT_ABDICATE_COOLDOWN = 5000;
+const DEFAULT_ELECTION_MODE: ElectionMode = 'bully';
+const DEFAULT_TIMER_SOURCE: TimerSource = 'main';
+const DEFAULT_TRANSPORT: TransportFactory = (channelName) =>
+  new BroadcastChannelTransport(channelName);
+
+/** Version of the message protocol; messages of other versions are ignored */
+export const PROTOCOL_VERSION = 1;
+
+/** Page lifecycle events that suspend or restore a tab */
+const LIFECYCLE_WINDOW_EVENTS = ['pagehide', 'pageshow'];
+const LIFECYCLE_DOCUMENT_EVENTS = ['freeze', 'resume', 'visibilitychange'];
+
+/** Heartbeat interval a backgrounded Chief announces when its timers may be throttled */
+const BACKGROUND_HEARTBEAT_INTERVAL = 60 * 1000;
+/** Missed heartbeats after which followers consider an adaptive Chief gone */
+const ADAPTIVE_TIMEOUT_HEARTBEATS = 3;
 
 /** Debounce time for rapid tab reloading */
 const ELECTION_DEBOUNCE_TIME = 100;
 
+/** Default replay history limits */
+const DEFAULT_REPLAY_SIZE = 50;
+const DEFAULT_REPLAY_TTL = 5 * 60 * 1000;
+
+/** Default retry delays of failing exclusive tasks */
+const DEFAULT_TASK_RETRY_DELAY = 1000;
+const DEFAULT_TASK_MAX_RETRY_DELAY = 30 * 1000;
+
+/** Number of recent settle times and tenures kept by getStats() */
+const STATS_HISTORY_SIZE = 50;
+
+/** Default time to wait for a response to request() */
+const DEFAULT_REQUEST_TIMEOUT = 5000;
+
+/**
+ * A request awaiting its response
+ */
+interface PendingRequest {
+  method: string;
+  params: unknown;
+  retry: boolean;
+  /** Chief the request was sent to, or null while waiting for a Chief */
+  sentTo: string | null;
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * A leadership transfer awaiting acceptance by its target
+ */
+interface PendingTransfer {
+  targetId: string;
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (transferred: boolean) => void;
+}
+
+/**
+ * A leadership request awaiting a handoff from the Chief
+ */
+interface PendingLeadershipRequest {
+  promise: Promise<boolean>;
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (granted: boolean) => void;
+}
+
+/**
+ * An exclusive task currently running on the Chief
+ */
+interface RunningTask {
+  controller: AbortController;
+  cleanup?: CleanupFunction;
+}
+
+/**
+ * Supervision policy and health of a registered exclusive task
+ */
+interface SupervisedTask {
+  options: TaskOptions;
+  status: TaskStatus;
+  failures: number;
+  lastError?: unknown;
+  nextRetryAt?: number;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
 /**
  * Generate a unique identifier for this tab
  */
@@ -29,49 +176,295 @@ function generateTabId(): string {
   return `${timestamp}-${random}`;
 }
 
+/**
+ * 32-bit FNV-1a hash, used to rank tabs per role
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Compares dotted version strings segment by segment (numerically where possible)
+ *
+ * @returns Positive if a is newer, negative if b is newer, 0 if equal
+ */
+function compareVersions(a: string, b: string): number {
+  const aParts = a.split('.');
+  const bParts = b.split('.');
+
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const aPart = aParts[i] ?? '0';
+    const bPart = bParts[i] ?? '0';
+    const aNumber = Number(aPart);
+    const bNumber = Number(bPart);
+
+    const order =
+      Number.isNaN(aNumber) || Number.isNaN(bNumber)
+        ? aPart.localeCompare(bPart)
+        : aNumber - bNumber;
+    if (order !== 0) {
+      return order;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Returns true if the value is a Promise (or thenable)
+ */
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as PromiseLike<T>).then === 'function'
+  );
+}
+
+/**
+ * Creates empty statistics for getStats()
+ */
+function createStats(): TabChiefStats {
+  return {
+    electionsStarted: 0,
+    electionsWon: 0,
+    electionsLost: 0,
+    settleTimes: [],
+    tenures: [],
+    currentTenure: null,
+    heartbeatJitter: { samples: 0, average: 0, max: 0 },
+    missedHeartbeats: 0,
+    heartbeatTimeouts: 0,
+    conflictsResolved: 0,
+    conflictsYielded: 0,
+    messagesSent: {},
+    messagesReceived: {},
+  };
+}
+
+/**
+ * Appends a value to a history, dropping the oldest beyond STATS_HISTORY_SIZE
+ */
+function pushHistory(history: number[], value: number): void {
+  history.push(value);
+  if (history.length > STATS_HISTORY_SIZE) {
+    history.shift();
+  }
+}
+
+/**
+ * Returns true if the Web Locks API is available in this environment
+ */
+function isWebLocksSupported(): boolean {
+  return typeof navigator !== 'undefined' && !!navigator.locks;
+}
+
+/**
+ * Returns true unless the document is hidden (always true outside browsers)
+ */
+function isDocumentVisible(): boolean {
+  return typeof document === 'undefined' || document.visibilityState !== 'hidden';
+}
+
+/**
+ * @internal Identity of a TabChief hosting the election of a named role
+ */
+export interface RoleElection {
+  role: string;
+  tabId: string;
+  creationTimestamp: number;
+  balancing: RoleBalancing;
+}
+
 /**
  * TabChief - Leader Election for Browser Tabs
  *
- * Implements a simplified Bully Algorithm using BroadcastChannel
- * to elect a single "Chief" tab among multiple browser tabs.
+ * Implements a simplified Bully Algorithm over a pluggable transport
+ * (BroadcastChannel by default) to elect a single "Chief" tab among multiple browser tabs.
+ * Optionally, leadership can be held via the Web Locks API instead.
  */
-export class TabChief {
+export class TabChief<Events extends object = EventMap> {
   private readonly tabId: string;
   private readonly channelName: string;
   private readonly heartbeatInterval: number;
   private readonly electionTimeout: number;
+  private readonly timerSource: TimerSource;
+  private readonly adaptiveTimeouts: boolean;
   private readonly creationTimestamp: number;
   private readonly debug: boolean;
+  private readonly logger: Logger;
+  private readonly electionMode: ElectionMode;
+  private readonly createTransport: TransportFactory;
+  private readonly createCheckpointStore: CheckpointStoreFactory;
+  private readonly replaySize: number;
+  private readonly cleanupTimeout: number;
+  private readonly replayTtl: number;
+  private readonly options: TabChiefOptions;
+  private readonly priority: number | (() => number);
+  private readonly presenceInterval: number;
+  private readonly presenceTimeout: number;
+  private readonly preferVisible: boolean;
+  private readonly visibilityHandoffDelay: number;
+  private readonly appVersion: string | undefined;
+  private readonly versionPolicy: VersionPolicy;
+  private readonly roleElection: RoleElection | null;
+  /** True for the instance hosted by a SharedWorker coordinator, the permanent Chief */
+  private readonly hostsCoordinator: boolean;
 
-  private channel: BroadcastChannel | null = null;
+  private transport: Transport | null = null;
+  private unsubscribeTransport: (() => void) | null = null;
   private state: TabState = TabState.IDLE;
   private currentChiefId: string | null = null;
+  private currentPriority: number = DEFAULT_PRIORITY;
+  private chiefPriority: number = DEFAULT_PRIORITY;
+  /** Highest election term seen; the term of the current Chief's leadership */
+  private currentTerm = 0;
+  /** Time this tab was hidden, or null while visible */
+  private hiddenSince: number | null = null;
+  /** Time the Chief was first seen hidden, or null while it is visible */
+  private chiefHiddenSince: number | null = null;
+  /** Time until which this tab stays out of elections after abdicating */
+  private electionCooldownUntil = 0;
+  private pendingTransfer: PendingTransfer | null = null;
+  private leadershipRequest: PendingLeadershipRequest | null = null;
 
-  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
-  private electionTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Clock driving heartbeat and election timers */
+  private clock: Clock = mainThreadClock;
+  private heartbeatTimer: ClockHandle | null = null;
+  private electionTimer: ClockHandle | null = null;
+  /** Heartbeat cadence of the current Chief, learned when adaptiveTimeouts is enabled */
+  private chiefHeartbeatInterval: number;
+  private lastHeartbeat: { chiefId: string; receivedAt: number } | null = null;
   private electionDebounceTimer: ReturnType<typeof setTimeout> | null = null;
 
+  private lockController: AbortController | null = null;
+  private releaseLock: (() => void) | null = null;
+
   private exclusiveTasks: ExclusiveTask[] = [];
   private activeCleanups: CleanupFunction[] = [];
+  private taskController: AbortController | null = null;
+  /** Abort controllers and cleanups of running tasks, for unregistering a single task */
+  private runningTasks: Map<ExclusiveTask, RunningTask> = new Map();
+  /** Supervision of every registered task, in registration order */
+  private supervisedTasks: Map<ExclusiveTask, SupervisedTask> = new Map();
   private messageCallbacks: MessageCallback<unknown>[] = [];
+  private topicCallbacks: Map<string, MessageCallback<unknown>[]> = new Map();
   private stateChangeCallbacks: StateChangeCallback[] = [];
   private becomeChiefCallbacks: LeadershipCallback[] = [];
   private becomeFollowerCallbacks: LeadershipCallback[] = [];
+  private chiefChangeCallbacks: ChiefChangeCallback[] = [];
+  private conflictCallbacks: ConflictCallback[] = [];
+  private versionMismatchCallbacks: VersionMismatchCallback[] = [];
+  /** Tabs already reported via onVersionMismatch */
+  private reportedMismatches: Set<string> = new Set();
+  private tabJoinCallbacks: TabPresenceCallback[] = [];
+  private tabLeaveCallbacks: TabPresenceCallback[] = [];
+  /** Functions ending the open iterators and subscriptions, called by stop() */
+  private openStreams: Set<() => void> = new Set();
+  private metricCallbacks: MetricCallback[] = [];
+  private errorCallbacks: ErrorCallback[] = [];
+
+  /** Counters and timings reported by getStats() */
+  private stats: TabChiefStats = createStats();
+  /** Time the pending election was started, or null if none is pending */
+  private electionStartedAt: number | null = null;
+  /** Time this tab became Chief, or null while not Chief */
+  private tenureStartedAt: number | null = null;
+
+  private metadata: TabMetadata;
+  private tabs: Map<string, { metadata: TabMetadata; lastSeen: number }> = new Map();
+  private presenceTimer: ReturnType<typeof setInterval> | null = null;
+
+  private requestHandlers: Map<string, RequestHandler> = new Map();
+  private pendingRequests: Map<string, PendingRequest> = new Map();
+  private requestCounter = 0;
+  /** Messages for the Chief, held back while no Chief is known */
+  private pendingChiefMessages: DataMessage[] = [];
+  private sharedStates: Map<string, SharedState<unknown>> = new Map();
+  /** Store of checkpoint() and readCheckpoint(), created on first use */
+  private checkpointStore: CheckpointStore | null = null;
+  private replayHistory: DataMessage[] = [];
+  private replayedTo: Set<string> = new Set();
+  private roles: Map<string, TabChief> = new Map();
+  private roleListeners: Map<string, TransportListener> = new Map();
+  private readonly sharedStateHost: SharedStateHost;
+  private readonly transportContext: TransportContext;
 
   private boundBeforeUnload: (() => void) | null = null;
+  private boundVisibilityChange: (() => void) | null = null;
+  private boundLifecycleEvent: ((event: Event) => void) | null = null;
+  /** True while stopped because the page was frozen or put into the back/forward cache */
+  private suspended = false;
+  /** True while following a SharedWorker coordinator instead of electing a Chief */
+  private coordinated = false;
+  /** Falls back to tab election if the coordinator does not announce itself in time */
+  private coordinatorTimer: ClockHandle | null = null;
+  /** Removes the error listener from the coordinator's SharedWorker */
+  private unwatchCoordinator: (() => void) | null = null;
 
-  constructor(options?: TabChiefOptions) {
-    this.tabId = generateTabId();
-    this.creationTimestamp = Date.now();
+  /**
+   * @param options - Configuration options
+   * @param roleElection - Internal, used for named role elections
+   * @param hostsCoordinator - Internal, used by TabChiefCoordinator
+   */
+  constructor(options?: TabChiefOptions, roleElection?: RoleElection, hostsCoordinator = false) {
+    this.options = options ?? {};
+    this.roleElection = roleElection ?? null;
+    this.hostsCoordinator = hostsCoordinator;
+    this.tabId = roleElection?.tabId ?? generateTabId();
+    this.creationTimestamp = roleElection?.creationTimestamp ?? Date.now();
     this.channelName = options?.channelName ?? DEFAULT_CHANNEL_NAME;
     this.heartbeatInterval = options?.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL;
     this.electionTimeout = options?.electionTimeout ?? DEFAULT_ELECTION_TIMEOUT;
+    this.timerSource = options?.timers ?? DEFAULT_TIMER_SOURCE;
+    this.adaptiveTimeouts = options?.adaptiveTimeouts ?? false;
+    this.chiefHeartbeatInterval = this.heartbeatInterval;
     this.debug = options?.debug ?? false;
+    this.logger = options?.logger ?? consoleLogger;
+    this.priority = options?.priority ?? DEFAULT_PRIORITY;
+    this.electionMode = options?.election ?? DEFAULT_ELECTION_MODE;
+    this.createTransport = options?.transport ?? DEFAULT_TRANSPORT;
+    this.createCheckpointStore = options?.checkpoints ?? createCheckpointStore;
+    this.cleanupTimeout = options?.cleanupTimeout ?? DEFAULT_CLEANUP_TIMEOUT;
+    this.replaySize = options?.replay ? (options.replay.size ?? DEFAULT_REPLAY_SIZE) : 0;
+    this.replayTtl = options?.replay?.ttlMs ?? DEFAULT_REPLAY_TTL;
+    this.metadata = options?.metadata ?? {};
+    this.presenceInterval = options?.presenceInterval ?? DEFAULT_PRESENCE_INTERVAL;
+    this.presenceTimeout = options?.presenceTimeout ?? this.presenceInterval * 3;
+    this.preferVisible = options?.preferVisible ?? false;
+    this.visibilityHandoffDelay =
+      options?.visibilityHandoffDelay ?? DEFAULT_VISIBILITY_HANDOFF_DELAY;
+    this.appVersion = options?.appVersion;
+    this.versionPolicy = options?.versionPolicy ?? 'notify';
+
+    this.sharedStateHost = {
+      isChief: () => this.isChief,
+      publishPatch: (key, baseVersion, version, operations) => {
+        this.broadcast({
+          type: MessageType.STATE_PATCH,
+          senderId: this.tabId,
+          timestamp: Date.now(),
+          key,
+          baseVersion,
+          version,
+          operations,
+        });
+      },
+      requestSnapshot: (key) => this.requestStateSnapshots([key]),
+      reportError: (message, error) => this.reportError(message, error, 'callback'),
+    };
+    this.transportContext = {
+      reportError: (message, error) => this.reportError(message, error, 'transport'),
+    };
 
     this.log('TabChief initialized', {
-      tabId: this.tabId,
       channelName: this.channelName,
       timestamp: this.creationTimestamp,
+      election: this.electionMode,
     });
   }
 
@@ -96,189 +489,908 @@ export class TabChief {
     return this.tabId;
   }
 
+  /**
+   * Returns the identifier of the current Chief, or null while none is known
+   */
+  public get chiefId(): string | null {
+    return this.currentChiefId;
+  }
+
+  /**
+   * Returns the election term of the current leadership (0 before any election).
+   * Terms increase with every new Chief and can be used as fencing tokens.
+   */
+  public get term(): number {
+    return this.currentTerm;
+  }
+
+  /**
+   * Returns all known tabs on the channel, including this one
+   */
+  public getTabs(): TabInfo[] {
+    const self = this.toTabInfo(this.tabId, this.metadata, Date.now());
+    const others = [...this.tabs.entries()].map(([id, tab]) =>
+      this.toTabInfo(id, tab.metadata, tab.lastSeen)
+    );
+    return [self, ...others];
+  }
+
+  /**
+   * Updates the metadata announced to other tabs
+   *
+   * @param metadata - New metadata, e.g. current route or visibility
+   */
+  public setMetadata(metadata: TabMetadata): void {
+    this.metadata = metadata;
+    if (this.presenceTimer) {
+      this.announcePresence(false);
+    }
+  }
+
+  /**
+   * Returns the named roles this tab currently holds
+   */
+  public get heldRoles(): string[] {
+    return [...this.roles.entries()].filter(([, role]) => role.isChief).map(([name]) => name);
+  }
+
+  /**
+   * Returns true if this tab currently holds the named role
+   *
+   * @param role - Role name used with runExclusive(role, task)
+   */
+  public isChiefOf(role: string): boolean {
+    return this.roles.get(role)?.isChief ?? false;
+  }
+
+  /**
+   * Returns the election state of a named role on this tab
+   *
+   * @param role - Role name used with runExclusive(role, task)
+   */
+  public getRoleState(role: string): TabState {
+    return this.roles.get(role)?.currentState ?? TabState.IDLE;
+  }
+
   /**
    * Starts the election process
    */
-  public start(): void {
+  public start(): void;
+  /**
+   * Starts the election process and waits for its outcome
+   *
+   * @param options - Wait options
+   * @returns Promise resolving with the Chief's id once the election has settled
+   */
+  public start(options: StartOptions): Promise<string>;
+  public start(options?: StartOptions): void | Promise<string> {
+    if (options?.wait) {
+      try {
+        this.start();
+      } catch (error) {
+        return Promise.reject(error);
+      }
+      return this.whenSettled(options);
+    }
+
     if (this.state !== TabState.IDLE && this.state !== TabState.STOPPED) {
       this.log('start() called but already running', { currentState: this.state });
       return;
     }
 
-    this.log('Starting TabChief');
+    if (this.electionMode === 'web-locks' && !isWebLocksSupported()) {
+      throw new Error('[TabChief] Web Locks API is not available in this environment');
+    }
 
-    // Initialize BroadcastChannel
-    this.channel = new BroadcastChannel(this.channelName);
-    this.channel.onmessage = (event: MessageEvent<ChannelMessage>) => {
-      this.handleMessage(event.data);
-    };
+    this.info('Starting TabChief');
+
+    this.clock = this.createClock();
+
+    // Initialize transport (the coordinator's port when following a SharedWorker)
+    this.transport = this.connectTransport();
+    this.unsubscribeTransport = this.transport.subscribe((message) => {
+      this.handleMessage(message);
+    });
 
     // Set up graceful shutdown
-    this.boundBeforeUnload = this.handleBeforeUnload.bind(this);
-    window.addEventListener('beforeunload', this.boundBeforeUnload);
+    if (!this.hostsCoordinator) {
+      this.boundBeforeUnload = this.handleBeforeUnload.bind(this);
+      window.addEventListener('beforeunload', this.boundBeforeUnload);
+    }
 
-    // Start election
-    this.startElection();
+    // Step down when the page is frozen or cached, rejoin when it is restored
+    if (!this.roleElection && !this.hostsCoordinator && !this.boundLifecycleEvent) {
+      this.boundLifecycleEvent = this.handleLifecycleEvent.bind(this);
+      for (const type of LIFECYCLE_WINDOW_EVENTS) {
+        window.addEventListener(type, this.boundLifecycleEvent);
+      }
+      for (const type of LIFECYCLE_DOCUMENT_EVENTS) {
+        document.addEventListener(type, this.boundLifecycleEvent);
+      }
+    }
+
+    // Track visibility to prefer visible tabs as Chief and announce backgrounding
+    if (this.preferVisible || this.adaptiveTimeouts) {
+      this.hiddenSince = isDocumentVisible() ? null : Date.now();
+      this.boundVisibilityChange = this.handleVisibilityChange.bind(this);
+      document.addEventListener('visibilitychange', this.boundVisibilityChange);
+      window.addEventListener('focus', this.boundVisibilityChange);
+    }
+
+    // Start election (the coordinator is Chief without one)
+    if (this.hostsCoordinator) {
+      this.declareVictory();
+    } else if (this.usesWebLocks()) {
+      this.requestLeadershipLock();
+    } else {
+      this.startElection();
+    }
+
+    // Start the elections of named roles
+    for (const role of this.roles.values()) {
+      role.start();
+    }
+
+    // Announce this tab to the roster
+    if (!this.roleElection && !this.hostsCoordinator) {
+      this.startPresence();
+    }
   }
 
   /**
-   * Stops the election, closes channels, and runs cleanup
+   * Stops the election, closes channels, and runs cleanup.
+   * If cleanups are async, the Chief steps down (SHUTDOWN / lock release)
+   * only after they settle or the cleanup timeout expires.
+   *
+   * @returns Promise resolving once this tab has stepped down
    */
-  public stop(): void {
+  public stop(): Promise<void> {
     if (this.state === TabState.STOPPED || this.state === TabState.IDLE) {
       this.log('stop() called but already stopped', { currentState: this.state });
-      return;
+      // Stay stopped when a suspended page is restored
+      if (this.suspended) {
+        this.suspended = false;
+        this.removeLifecycleListeners();
+        this.endStreams();
+      }
+      return Promise.resolve();
     }
 
-    this.log('Stopping TabChief', { wasChief: this.state === TabState.CHIEF });
+    const wasChief = this.state === TabState.CHIEF;
+    this.info('Stopping TabChief', { wasChief });
 
-    // Announce shutdown if we're the Chief
-    if (this.state === TabState.CHIEF) {
-      this.log('Broadcasting SHUTDOWN message');
-      this.broadcast({
-        type: MessageType.SHUTDOWN,
-        senderId: this.tabId,
-        timestamp: Date.now(),
-      });
-    }
+    // Stop named roles; they share our transport until they have stepped down
+    const roleStops = [...this.roles.values()].map((role) => role.stop());
 
     // Run cleanup functions for exclusive tasks
-    this.runCleanups();
+    const pendingCleanups = this.runCleanups();
 
     // Clear all timers
     this.clearTimers();
+    this.stopPresence();
+    this.clock.dispose();
+    this.clock = mainThreadClock;
 
     // Remove event listener
     if (this.boundBeforeUnload) {
       window.removeEventListener('beforeunload', this.boundBeforeUnload);
       this.boundBeforeUnload = null;
     }
+    if (this.boundVisibilityChange) {
+      document.removeEventListener('visibilitychange', this.boundVisibilityChange);
+      window.removeEventListener('focus', this.boundVisibilityChange);
+      this.boundVisibilityChange = null;
+    }
+    // A suspended page keeps listening for its restoration
+    if (!this.suspended) {
+      this.removeLifecycleListeners();
+    }
 
-    // Close channel
-    if (this.channel) {
-      this.channel.close();
-      this.channel = null;
+    // Stop receiving messages; the transport stays open until we have stepped down
+    if (this.unsubscribeTransport) {
+      this.unsubscribeTransport();
+      this.unsubscribeTransport = null;
     }
+    const transport = this.transport;
+    this.transport = null;
+    this.unwatchCoordinator?.();
+    this.unwatchCoordinator = null;
+    const releaseLock = this.detachLeadershipLock();
+
+    // Reject requests that can no longer be answered
+    this.rejectPendingRequests(new Error('[TabChief] TabChief was stopped'));
+    this.settleTransfer(false);
+    this.settleLeadershipRequest(false);
+    this.pendingChiefMessages = [];
 
     this.setState(TabState.STOPPED);
-    this.currentChiefId = null;
+    this.setChiefId(null);
+    this.electionStartedAt = null;
+
+    // Iterators and subscriptions outlive a suspension, the tab rejoins when restored
+    if (!this.suspended) {
+      this.endStreams();
+    }
+
+    const stepDown = (): void => {
+      // Announce shutdown if we were the Chief
+      if (wasChief && transport) {
+        this.log('Broadcasting SHUTDOWN message');
+        transport.send(
+          this.stampMessage({
+            type: MessageType.SHUTDOWN,
+            senderId: this.tabId,
+            timestamp: Date.now(),
+          })
+        );
+      }
+
+      releaseLock();
+
+      // Leave the roster
+      if (!this.roleElection && !this.hostsCoordinator) {
+        transport?.send(
+          this.stampMessage({
+            type: MessageType.LEAVE,
+            senderId: this.tabId,
+            timestamp: Date.now(),
+          })
+        );
+      }
+    };
+
+    const closeTransport = (): void => {
+      transport?.close();
+    };
+
+    if (!pendingCleanups && roleStops.length === 0) {
+      stepDown();
+      closeTransport();
+      return Promise.resolve();
+    }
+
+    let steppedDown: Promise<void>;
+    if (pendingCleanups) {
+      this.log('Waiting for async cleanups before stepping down');
+      steppedDown = pendingCleanups.then(stepDown);
+    } else {
+      stepDown();
+      steppedDown = Promise.resolve();
+    }
+
+    return Promise.all([steppedDown, ...roleStops]).then(closeTransport);
   }
 
   /**
-   * [CORE FEATURE: Effect Pattern]
-   * Registers a task that runs ONLY when this tab becomes the Chief.
-   * The task MUST return a cleanup function (or void) that executes
-   * immediately when leadership is lost or the tab closes.
+   * Steps down as Chief while staying on the channel as a Follower.
+   * Cleanups run (async ones are awaited) before the other tabs are told to
+   * elect a new Chief; this tab stays out of elections for the cooldown.
    *
-   * @param task - Function to run when becoming Chief, should return cleanup function
+   * @param options - Abdication options
+   * @returns Promise resolving once this tab has stepped down
    */
-  public runExclusive(task: ExclusiveTask): void {
-    this.exclusiveTasks.push(task);
-
-    // If already Chief, run the task immediately
-    if (this.state === TabState.CHIEF) {
-      this.runTask(task);
+  public abdicate(options?: AbdicateOptions): Promise<void> {
+    if (this.state !== TabState.CHIEF) {
+      this.log('abdicate() called but not Chief', { currentState: this.state });
+      return Promise.resolve();
     }
+
+    this.settleTransfer(false);
+    return this.stepDown(options?.cooldown ?? DEFAULT_ABDICATE_COOLDOWN);
   }
 
   /**
-   * Broadcasts a message to all tabs (including the sender)
+   * Hands leadership to a specific tab.
+   * The target must confirm within the election timeout; otherwise this tab
+   * abdicates and a normal election picks the next Chief.
    *
-   * @param data - Data to broadcast
+   * @param tabId - Id of the tab to hand leadership to
+   * @returns Promise resolving to true if the target took over, false if it fell back to an election
    */
-  public postMessage<T>(data: T): void {
-    if (!this.channel || this.state === TabState.STOPPED || this.state === TabState.IDLE) {
-      this.log('postMessage() called but channel not ready', { state: this.state });
-      return;
+  public transferTo(tabId: string): Promise<boolean> {
+    if (this.state !== TabState.CHIEF) {
+      return Promise.reject(new Error('[TabChief] Only the Chief can transfer leadership'));
+    }
+    if (this.usesWebLocks()) {
+      return Promise.reject(
+        new Error('[TabChief] transferTo() is not supported with Web Locks elections')
+      );
+    }
+    if (tabId === this.tabId) {
+      return Promise.resolve(true);
     }
 
-    this.log('Broadcasting user message', { data });
+    this.settleTransfer(false);
+    this.log('Offering leadership', { to: tabId.slice(0, 8) });
 
-    const message: DataMessage<T> = {
-      type: MessageType.DATA,
-      senderId: this.tabId,
-      timestamp: Date.now(),
-      payload: data,
-    };
+    return new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => {
+        this.pendingTransfer = null;
+        if (this.state !== TabState.CHIEF) {
+          resolve(false);
+          return;
+        }
 
-    this.channel.postMessage(message);
+        this.log('Transfer not accepted, falling back to election', { to: tabId.slice(0, 8) });
+        this.stepDown(DEFAULT_ABDICATE_COOLDOWN).then(() => resolve(false));
+      }, this.electionTimeout);
 
-    // Also notify local callbacks
-    this.notifyMessageCallbacks(data);
+      this.pendingTransfer = { targetId: tabId, timer, resolve };
+      this.broadcast({
+        type: MessageType.TRANSFER,
+        senderId: this.tabId,
+        timestamp: Date.now(),
+        targetId: tabId,
+        term: this.currentTerm,
+      });
+    });
   }
 
   /**
-   * Subscribes to messages from the channel
+   * Asks the current Chief to hand leadership to this tab,
+   * e.g. because the user is interacting with it
    *
-   * @param callback - Function to call when a message is received
+   * @returns Promise resolving to true once this tab is Chief, or false if
+   * no Chief is known or it did not hand over in time
    */
-  public onMessage<T>(callback: MessageCallback<T>): void {
-    this.messageCallbacks.push(callback as MessageCallback<unknown>);
+  public requestLeadership(): Promise<boolean> {
+    if (!this.transport || this.state === TabState.STOPPED || this.state === TabState.IDLE) {
+      return Promise.reject(
+        new Error('[TabChief] requestLeadership() called but TabChief is not running')
+      );
+    }
+    if (this.state === TabState.CHIEF) {
+      return Promise.resolve(true);
+    }
+    if (this.usesWebLocks()) {
+      return Promise.reject(
+        new Error('[TabChief] requestLeadership() is not supported with Web Locks elections')
+      );
+    }
+    if (this.coordinated) {
+      return Promise.reject(
+        new Error('[TabChief] requestLeadership() is not supported with a coordinator')
+      );
+    }
+    if (this.leadershipRequest) {
+      return this.leadershipRequest.promise;
+    }
+    if (this.currentChiefId === null) {
+      this.log('requestLeadership() called but no Chief is known');
+      return Promise.resolve(false);
+    }
+
+    this.log('Requesting leadership', { chiefId: this.currentChiefId.slice(0, 8) });
+    const chiefId = this.currentChiefId;
+
+    let resolveRequest!: (granted: boolean) => void;
+    const promise = new Promise<boolean>((resolve) => {
+      resolveRequest = resolve;
+    });
+    this.leadershipRequest = {
+      promise,
+      // The Chief may wait for its cleanups before handing over
+      timer: setTimeout(() => {
+        this.settleLeadershipRequest(false);
+      }, this.electionTimeout + this.cleanupTimeout),
+      resolve: resolveRequest,
+    };
+
+    this.broadcast({
+      type: MessageType.LEADERSHIP_REQUEST,
+      senderId: this.tabId,
+      timestamp: Date.now(),
+      targetId: chiefId,
+    });
+    return promise;
   }
 
   /**
-   * Removes a message callback
+   * Waits until this tab is the Chief
    *
-   * @param callback - The callback function to remove
+   * @param options - Wait options
+   * @returns Promise resolving once this tab is Chief, rejecting on stop(), abort or timeout
    */
-  public offMessage<T>(callback: MessageCallback<T>): void {
-    const index = this.messageCallbacks.indexOf(callback as MessageCallback<unknown>);
-    if (index !== -1) {
-      this.messageCallbacks.splice(index, 1);
-    }
+  public whenChief(options?: WaitOptions): Promise<void> {
+    return this.waitFor(
+      'leadership',
+      () => this.state === TabState.CHIEF,
+      () => undefined,
+      options
+    );
   }
 
   /**
-   * Subscribes to state change events
+   * Waits until the election has settled, with this tab as Chief or following a known Chief
    *
-   * @param callback - Function to call when the state changes
+   * @param options - Wait options
+   * @returns Promise resolving with the Chief's id, rejecting on stop(), abort or timeout
    */
-  public onStateChange(callback: StateChangeCallback): void {
-    this.stateChangeCallbacks.push(callback);
+  public whenSettled(options?: WaitOptions): Promise<string> {
+    return this.waitFor(
+      'the election to settle',
+      () =>
+        this.state === TabState.CHIEF ||
+        (this.state === TabState.FOLLOWER && this.currentChiefId !== null),
+      () => (this.state === TabState.CHIEF ? this.tabId : (this.currentChiefId as string)),
+      options
+    );
   }
 
   /**
-   * Removes a state change callback
+   * Waits until this tab is in the given state
    *
-   * @param callback - The callback function to remove
+   * @param state - State to wait for
+   * @param options - Wait options
+   * @returns Promise resolving once the state is reached, rejecting on stop()
+   * (unless waiting for STOPPED), abort or timeout
    */
-  public offStateChange(callback: StateChangeCallback): void {
-    const index = this.stateChangeCallbacks.indexOf(callback);
-    if (index !== -1) {
-      this.stateChangeCallbacks.splice(index, 1);
-    }
+  public waitForState(state: TabState, options?: WaitOptions): Promise<void> {
+    return this.waitFor(`state ${state}`, () => this.state === state, () => undefined, options);
   }
 
   /**
-   * Subscribes to become Chief events
-   * Called when this tab becomes the Chief (leader)
+   * [CORE FEATURE: Effect Pattern]
+   * Registers a task that runs ONLY when this tab becomes the Chief.
+   * The task MUST return a cleanup function (or void) that executes
+   * immediately when leadership is lost or the tab closes.
+   * Async tasks may return a Promise of the cleanup; the AbortSignal passed
+   * to the task aborts when leadership is lost or stop() is called.
    *
-   * @param callback - Function to call when becoming Chief
+   * Passing a role name runs the task under that role's own election instead,
+   * so different roles can be held by different tabs.
+   *
+   * @param task - Function to run when becoming Chief, should return cleanup function
+   * @param options - Supervision policy: retries with backoff and abdication on failures
+   * @returns Function that unregisters the task, aborting it and running its cleanup if active
    */
-  public onBecomeChief(callback: LeadershipCallback): void {
-    this.becomeChiefCallbacks.push(callback);
+  public runExclusive(task: ExclusiveTask, options?: TaskOptions): () => void;
+  public runExclusive(role: string, task: ExclusiveTask, options?: TaskOptions): () => void;
+  public runExclusive(
+    roleOrTask: string | ExclusiveTask,
+    taskOrOptions?: ExclusiveTask | TaskOptions,
+    roleOptions?: TaskOptions
+  ): () => void {
+    if (typeof roleOrTask === 'string') {
+      return this.getRole(roleOrTask).runExclusive(taskOrOptions as ExclusiveTask, roleOptions);
+    }
+
+    // Wrap the task so registering the same function twice yields separate registrations
+    const userTask = roleOrTask;
+    const task: ExclusiveTask = (signal, term) => userTask(signal, term);
+    this.exclusiveTasks.push(task);
+    this.supervisedTasks.set(task, {
+      options: (taskOrOptions as TaskOptions | undefined) ?? {},
+      status: 'idle',
+      failures: 0,
+      retryTimer: null,
+    });
+
+    // If already Chief, run the task immediately
+    if (this.state === TabState.CHIEF) {
+      this.runTask(task);
+    }
+
+    return () => this.removeExclusiveTask(task);
   }
 
   /**
-   * Removes a become Chief callback
+   * Returns the health of the registered exclusive tasks, in registration order
+   */
+  public getTaskHealth(): TaskHealth[];
+  /**
+   * Returns the health of the exclusive tasks of a named role
    *
-   * @param callback - The callback function to remove
+   * @param role - Role name used with runExclusive(role, task)
    */
-  public offBecomeChief(callback: LeadershipCallback): void {
-    const index = this.becomeChiefCallbacks.indexOf(callback);
-    if (index !== -1) {
-      this.becomeChiefCallbacks.splice(index, 1);
+  public getTaskHealth(role: string): TaskHealth[];
+  public getTaskHealth(role?: string): TaskHealth[] {
+    if (role !== undefined) {
+      return this.roles.get(role)?.getTaskHealth() ?? [];
     }
+
+    return [...this.supervisedTasks.values()].map((supervised) => ({
+      name: supervised.options.name,
+      status: supervised.status,
+      failures: supervised.failures,
+      lastError: supervised.lastError,
+      nextRetryAt: supervised.nextRetryAt,
+    }));
   }
 
   /**
-   * Subscribes to become Follower events
-   * Called when this tab becomes a Follower (loses leadership)
+   * Broadcasts a message to all tabs (including the sender)
+   *
+   * @param data - Data to broadcast
+   */
+  public postMessage<T>(data: T): void;
+  /**
+   * Broadcasts a payload on a topic to all tabs (including the sender).
+   * Only callbacks subscribed to the topic are invoked.
+   *
+   * @param topic - Topic from the event map
+   * @param payload - Payload of the topic (pass undefined for void topics)
+   */
+  public postMessage<K extends keyof Events & string>(topic: K, payload: Events[K]): void;
+  public postMessage(...args: [data: unknown] | [topic: string, payload: unknown]): void {
+    if (!this.transport || this.state === TabState.STOPPED || this.state === TabState.IDLE) {
+      this.log('postMessage() called but channel not ready', { state: this.state });
+      return;
+    }
+
+    const message = this.createDataMessage(args);
+    this.log('Broadcasting user message', { topic: message.topic, data: message.payload });
+
+    this.broadcast(message);
+    this.recordReplayHistory(message);
+
+    // Also notify local callbacks
+    this.notifyMessageCallbacks(message, false);
+  }
+
+  /**
+   * Sends a message to a single tab.
+   * Only that tab's message callbacks are invoked.
+   *
+   * @param tabId - Id of the receiving tab
+   * @param data - Data to send
+   */
+  public sendTo<T>(tabId: string, data: T): void;
+  /**
+   * Sends a payload on a topic to a single tab
+   *
+   * @param tabId - Id of the receiving tab
+   * @param topic - Topic from the event map
+   * @param payload - Payload of the topic
+   */
+  public sendTo<K extends keyof Events & string>(tabId: string, topic: K, payload: Events[K]): void;
+  public sendTo(tabId: string, ...args: [data: unknown] | [topic: string, payload: unknown]): void {
+    if (!this.transport || this.state === TabState.STOPPED || this.state === TabState.IDLE) {
+      this.log('sendTo() called but channel not ready', { state: this.state });
+      return;
+    }
+
+    this.sendDirected(tabId, this.createDataMessage(args));
+  }
+
+  /**
+   * Sends a message to the current Chief.
+   * While an election is in progress, messages are queued and delivered
+   * to the next Chief.
+   *
+   * @param data - Data to send
+   */
+  public sendToChief<T>(data: T): void;
+  /**
+   * Sends a payload on a topic to the current Chief
+   *
+   * @param topic - Topic from the event map
+   * @param payload - Payload of the topic
+   */
+  public sendToChief<K extends keyof Events & string>(topic: K, payload: Events[K]): void;
+  public sendToChief(...args: [data: unknown] | [topic: string, payload: unknown]): void {
+    if (!this.transport || this.state === TabState.STOPPED || this.state === TabState.IDLE) {
+      this.log('sendToChief() called but channel not ready', { state: this.state });
+      return;
+    }
+
+    const message = this.createDataMessage(args);
+    if (this.currentChiefId === null) {
+      this.log('No Chief known, queueing message', { topic: message.topic, data: message.payload });
+      this.pendingChiefMessages.push(message);
+      return;
+    }
+
+    this.sendDirected(this.currentChiefId, message);
+  }
+
+  /**
+   * Registers a handler for requests sent via request().
+   * Only the Chief executes handlers, so register them on every tab.
+   *
+   * @param method - Method name
+   * @param handler - Function returning the result (or a Promise of it)
+   */
+  public handle<P = unknown, R = unknown>(method: string, handler: RequestHandler<P, R>): void {
+    this.requestHandlers.set(method, handler as RequestHandler);
+  }
+
+  /**
+   * Removes the handler for a method
+   *
+   * @param method - Method name
+   */
+  public unhandle(method: string): void {
+    this.requestHandlers.delete(method);
+  }
+
+  /**
+   * Sends a request to the Chief and resolves with the handler's result.
+   * Requests made while no Chief is known are sent once the election settles.
+   *
+   * @param method - Method name registered via handle()
+   * @param params - Parameters passed to the handler
+   * @param options - Timeout and retry behavior
+   */
+  public request<R = unknown, P = unknown>(
+    method: string,
+    params?: P,
+    options?: RequestOptions
+  ): Promise<R> {
+    if (!this.transport || this.state === TabState.STOPPED || this.state === TabState.IDLE) {
+      return Promise.reject(new Error('[TabChief] request() called but TabChief is not running'));
+    }
+
+    const requestId = `${this.tabId}:${++this.requestCounter}`;
+    const timeout = options?.timeout ?? DEFAULT_REQUEST_TIMEOUT;
+
+    return new Promise<R>((resolve, reject) => {
+      const pending: PendingRequest = {
+        method,
+        params,
+        retry: options?.retry ?? false,
+        sentTo: null,
+        timer: setTimeout(() => {
+          this.settleRequest(
+            requestId,
+            new Error(`[TabChief] Request "${method}" timed out after ${timeout}ms`)
+          );
+        }, timeout),
+        resolve: resolve as (result: unknown) => void,
+        reject,
+      };
+
+      this.pendingRequests.set(requestId, pending);
+      this.dispatchRequest(requestId, pending);
+    });
+  }
+
+  /**
+   * Creates (or returns the existing) state replicated from the Chief to all tabs.
+   * Only the Chief may call set(); every tab gets a read-only synchronized copy.
+   *
+   * @param key - Identifier shared by all tabs
+   * @param initialValue - Value used until a snapshot is received from the Chief
+   */
+  public createSharedState<T>(key: string, initialValue: T): SharedState<T> {
+    const existing = this.sharedStates.get(key);
+    if (existing) {
+      return existing as SharedState<T>;
+    }
+
+    const sharedState = new SharedState<T>(key, initialValue, this.sharedStateHost);
+    this.sharedStates.set(key, sharedState as SharedState<unknown>);
+
+    // Catch up with the Chief's copy if it is already known
+    this.requestStateSnapshots([key]);
+
+    return sharedState;
+  }
+
+  /**
+   * Persists a value for the Chiefs after this one, e.g. the cursor a sync task
+   * has processed up to. The checkpoint is tagged with this tab and its election term.
+   * Rejects unless this tab is still the Chief when the checkpoint is stored,
+   * and if a newer Chief took over since, even one that has not written the key.
+   *
+   * @param key - Identifier shared by all tabs
+   * @param value - Value to persist (must be serializable by the store)
+   */
+  public checkpoint<T>(key: string, value: T): Promise<void> {
+    if (!this.isChief) {
+      return Promise.reject(new Error(`[TabChief] Only the Chief can write checkpoint "${key}"`));
+    }
+
+    const checkpoint: Checkpoint<T> = {
+      key,
+      value,
+      tabId: this.tabId,
+      term: this.currentTerm,
+      timestamp: Date.now(),
+    };
+    const leaderSince = this.tenureStartedAt ?? checkpoint.timestamp;
+    this.log('Writing checkpoint', { key, term: checkpoint.term });
+    // Checked again by the store right before storing, as writes may wait for storage
+    const isLeader = () => this.isChief && this.currentTerm === checkpoint.term;
+    return this.getCheckpointStore().write(checkpoint, leaderSince, isLeader);
+  }
+
+  /**
+   * Reads the last checkpoint written under a key, by this or a previous Chief
+   *
+   * @param key - Identifier shared by all tabs
+   * @returns Promise resolving to the checkpoint, or null if none was written
+   */
+  public readCheckpoint<T = unknown>(key: string): Promise<Checkpoint<T> | null> {
+    return this.getCheckpointStore().read(key) as Promise<Checkpoint<T> | null>;
+  }
+
+  /**
+   * Subscribes to messages from the channel that were sent without a topic
+   *
+   * @param callback - Function to call when a message is received
+   * @returns Function that removes the callback
+   */
+  public onMessage<T>(callback: MessageCallback<T>): () => void;
+  /**
+   * Subscribes to the messages of a single topic
+   *
+   * @param topic - Topic from the event map
+   * @param callback - Function to call with the topic's payload
+   * @returns Function that removes the callback
+   */
+  public onMessage<K extends keyof Events & string>(
+    topic: K,
+    callback: MessageCallback<Events[K]>
+  ): () => void;
+  public onMessage(
+    topicOrCallback: string | MessageCallback<unknown>,
+    topicCallback?: MessageCallback<unknown>
+  ): () => void {
+    if (typeof topicOrCallback === 'string') {
+      const callback = topicCallback as MessageCallback<unknown>;
+      const callbacks = this.topicCallbacks.get(topicOrCallback) ?? [];
+      callbacks.push(callback);
+      this.topicCallbacks.set(topicOrCallback, callbacks);
+      return () => {
+        const index = callbacks.indexOf(callback);
+        if (index !== -1) {
+          callbacks.splice(index, 1);
+        }
+      };
+    }
+    this.messageCallbacks.push(topicOrCallback);
+    return () => this.offMessage(topicOrCallback);
+  }
+
+  /**
+   * Removes a message callback
+   *
+   * @param callback - The callback function to remove
+   */
+  public offMessage<T>(callback: MessageCallback<T>): void;
+  public offMessage<K extends keyof Events & string>(
+    topic: K,
+    callback: MessageCallback<Events[K]>
+  ): void;
+  public offMessage(
+    topicOrCallback: string | MessageCallback<unknown>,
+    topicCallback?: MessageCallback<unknown>
+  ): void {
+    if (typeof topicOrCallback === 'string') {
+      const callbacks = this.topicCallbacks.get(topicOrCallback);
+      const index = callbacks?.indexOf(topicCallback as MessageCallback<unknown>) ?? -1;
+      if (callbacks && index !== -1) {
+        callbacks.splice(index, 1);
+      }
+      return;
+    }
+    const index = this.messageCallbacks.indexOf(topicOrCallback);
+    if (index !== -1) {
+      this.messageCallbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Subscribes to state change events
+   *
+   * @param callback - Function to call when the state changes
+   * @returns Function that removes the callback
+   */
+  public onStateChange(callback: StateChangeCallback): () => void;
+  /**
+   * Subscribes to state changes of a named role's election
+   *
+   * @param role - Role name used with runExclusive(role, task)
+   * @param callback - Function to call when the role's state changes
+   * @returns Function that removes the callback
+   */
+  public onStateChange(role: string, callback: StateChangeCallback): () => void;
+  public onStateChange(
+    roleOrCallback: string | StateChangeCallback,
+    roleCallback?: StateChangeCallback
+  ): () => void {
+    if (typeof roleOrCallback === 'string') {
+      return this.getRole(roleOrCallback).onStateChange(roleCallback as StateChangeCallback);
+    }
+    this.stateChangeCallbacks.push(roleOrCallback);
+    return () => this.offStateChange(roleOrCallback);
+  }
+
+  /**
+   * Removes a state change callback
+   *
+   * @param callback - The callback function to remove
+   */
+  public offStateChange(callback: StateChangeCallback): void;
+  public offStateChange(role: string, callback: StateChangeCallback): void;
+  public offStateChange(
+    roleOrCallback: string | StateChangeCallback,
+    roleCallback?: StateChangeCallback
+  ): void {
+    if (typeof roleOrCallback === 'string') {
+      this.roles.get(roleOrCallback)?.offStateChange(roleCallback as StateChangeCallback);
+      return;
+    }
+    const index = this.stateChangeCallbacks.indexOf(roleOrCallback);
+    if (index !== -1) {
+      this.stateChangeCallbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Subscribes to become Chief events
+   * Called when this tab becomes the Chief (leader)
+   *
+   * @param callback - Function to call when becoming Chief
+   * @returns Function that removes the callback
+   */
+  public onBecomeChief(callback: LeadershipCallback): () => void;
+  /**
+   * Subscribes to events for gaining a named role
+   *
+   * @param role - Role name used with runExclusive(role, task)
+   * @param callback - Function to call when this tab gains the role
+   * @returns Function that removes the callback
+   */
+  public onBecomeChief(role: string, callback: LeadershipCallback): () => void;
+  public onBecomeChief(
+    roleOrCallback: string | LeadershipCallback,
+    roleCallback?: LeadershipCallback
+  ): () => void {
+    if (typeof roleOrCallback === 'string') {
+      return this.getRole(roleOrCallback).onBecomeChief(roleCallback as LeadershipCallback);
+    }
+    this.becomeChiefCallbacks.push(roleOrCallback);
+    return () => this.offBecomeChief(roleOrCallback);
+  }
+
+  /**
+   * Removes a become Chief callback
+   *
+   * @param callback - The callback function to remove
+   */
+  public offBecomeChief(callback: LeadershipCallback): void;
+  public offBecomeChief(role: string, callback: LeadershipCallback): void;
+  public offBecomeChief(
+    roleOrCallback: string | LeadershipCallback,
+    roleCallback?: LeadershipCallback
+  ): void {
+    if (typeof roleOrCallback === 'string') {
+      this.roles.get(roleOrCallback)?.offBecomeChief(roleCallback as LeadershipCallback);
+      return;
+    }
+    const index = this.becomeChiefCallbacks.indexOf(roleOrCallback);
+    if (index !== -1) {
+      this.becomeChiefCallbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Subscribes to become Follower events
+   * Called when this tab becomes a Follower (loses leadership)
    *
    * @param callback - Function to call when becoming Follower
+   * @returns Function that removes the callback
+   */
+  public onBecomeFollower(callback: LeadershipCallback): () => void;
+  /**
+   * Subscribes to events for losing a named role
+   *
+   * @param role - Role name used with runExclusive(role, task)
+   * @param callback - Function to call when this tab loses the role
+   * @returns Function that removes the callback
    */
-  public onBecomeFollower(callback: LeadershipCallback): void {
-    this.becomeFollowerCallbacks.push(callback);
+  public onBecomeFollower(role: string, callback: LeadershipCallback): () => void;
+  public onBecomeFollower(
+    roleOrCallback: string | LeadershipCallback,
+    roleCallback?: LeadershipCallback
+  ): () => void {
+    if (typeof roleOrCallback === 'string') {
+      return this.getRole(roleOrCallback).onBecomeFollower(roleCallback as LeadershipCallback);
+    }
+    this.becomeFollowerCallbacks.push(roleOrCallback);
+    return () => this.offBecomeFollower(roleOrCallback);
   }
 
   /**
@@ -286,260 +1398,1980 @@ export class TabChief {
    *
    * @param callback - The callback function to remove
    */
-  public offBecomeFollower(callback: LeadershipCallback): void {
-    const index = this.becomeFollowerCallbacks.indexOf(callback);
+  public offBecomeFollower(callback: LeadershipCallback): void;
+  public offBecomeFollower(role: string, callback: LeadershipCallback): void;
+  public offBecomeFollower(
+    roleOrCallback: string | LeadershipCallback,
+    roleCallback?: LeadershipCallback
+  ): void {
+    if (typeof roleOrCallback === 'string') {
+      this.roles.get(roleOrCallback)?.offBecomeFollower(roleCallback as LeadershipCallback);
+      return;
+    }
+    const index = this.becomeFollowerCallbacks.indexOf(roleOrCallback);
     if (index !== -1) {
       this.becomeFollowerCallbacks.splice(index, 1);
     }
   }
 
   /**
-   * Handles incoming messages from BroadcastChannel
+   * Subscribes to Chief change events
+   * Called whenever the known Chief changes, with null while none is known
+   *
+   * @param callback - Function to call with the new and previous Chief id
+   * @returns Function that removes the callback
    */
-  private handleMessage(message: ChannelMessage): void {
-    // Ignore messages from self (except for DATA which we already handle locally)
-    if (message.senderId === this.tabId) {
-      return;
+  public onChiefChange(callback: ChiefChangeCallback): () => void {
+    this.chiefChangeCallbacks.push(callback);
+    return () => this.offChiefChange(callback);
+  }
+
+  /**
+   * Removes a Chief change callback
+   *
+   * @param callback - The callback function to remove
+   */
+  public offChiefChange(callback: ChiefChangeCallback): void {
+    const index = this.chiefChangeCallbacks.indexOf(callback);
+    if (index !== -1) {
+      this.chiefChangeCallbacks.splice(index, 1);
     }
+  }
 
-    this.log(`Received ${message.type} message`, {
-      from: message.senderId.slice(0, 8),
-      type: message.type,
-    });
+  /**
+   * Subscribes to conflict events
+   * Called on a Chief that detects another tab claiming leadership at the same time
+   *
+   * @param callback - Function to call with the conflict details
+   * @returns Function that removes the callback
+   */
+  public onConflict(callback: ConflictCallback): () => void {
+    this.conflictCallbacks.push(callback);
+    return () => this.offConflict(callback);
+  }
 
-    switch (message.type) {
-      case MessageType.HEARTBEAT:
-        this.handleHeartbeat(message.senderId);
-        break;
+  /**
+   * Removes a conflict callback
+   *
+   * @param callback - The callback function to remove
+   */
+  public offConflict(callback: ConflictCallback): void {
+    const index = this.conflictCallbacks.indexOf(callback);
+    if (index !== -1) {
+      this.conflictCallbacks.splice(index, 1);
+    }
+  }
 
-      case MessageType.ELECTION:
-        this.handleElectionRequest(message.senderId, message.timestamp);
-        break;
+  /**
+   * Subscribes to version mismatch events
+   * Called once for every tab running a different appVersion, e.g. to prompt
+   * the user of a stale tab to reload
+   *
+   * @param callback - Function to call with the mismatch details
+   * @returns Function that removes the callback
+   */
+  public onVersionMismatch(callback: VersionMismatchCallback): () => void {
+    this.versionMismatchCallbacks.push(callback);
+    return () => this.offVersionMismatch(callback);
+  }
 
-      case MessageType.ALIVE:
-        this.handleAliveResponse(message.senderId, message.timestamp);
-        break;
+  /**
+   * Removes a version mismatch callback
+   *
+   * @param callback - The callback function to remove
+   */
+  public offVersionMismatch(callback: VersionMismatchCallback): void {
+    const index = this.versionMismatchCallbacks.indexOf(callback);
+    if (index !== -1) {
+      this.versionMismatchCallbacks.splice(index, 1);
+    }
+  }
 
-      case MessageType.VICTORY:
-        this.handleVictory(message.senderId);
-        break;
+  /**
+   * Subscribes to tab join events
+   * Called when another tab announces itself for the first time
+   *
+   * @param callback - Function to call with the joining tab
+   * @returns Function that removes the callback
+   */
+  public onTabJoin(callback: TabPresenceCallback): () => void {
+    this.tabJoinCallbacks.push(callback);
+    return () => this.offTabJoin(callback);
+  }
 
-      case MessageType.DATA:
-        this.notifyMessageCallbacks((message as DataMessage).payload);
-        break;
+  /**
+   * Removes a tab join callback
+   *
+   * @param callback - The callback function to remove
+   */
+  public offTabJoin(callback: TabPresenceCallback): void {
+    const index = this.tabJoinCallbacks.indexOf(callback);
+    if (index !== -1) {
+      this.tabJoinCallbacks.splice(index, 1);
+    }
+  }
 
-      case MessageType.SHUTDOWN:
-        this.handleShutdown(message.senderId);
-        break;
+  /**
+   * Subscribes to tab leave events
+   * Called when another tab stops, closes, or stops announcing itself
+   *
+   * @param callback - Function to call with the leaving tab
+   * @returns Function that removes the callback
+   */
+  public onTabLeave(callback: TabPresenceCallback): () => void {
+    this.tabLeaveCallbacks.push(callback);
+    return () => this.offTabLeave(callback);
+  }
+
+  /**
+   * Removes a tab leave callback
+   *
+   * @param callback - The callback function to remove
+   */
+  public offTabLeave(callback: TabPresenceCallback): void {
+    const index = this.tabLeaveCallbacks.indexOf(callback);
+    if (index !== -1) {
+      this.tabLeaveCallbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Returns election and heartbeat statistics of this tab
+   */
+  public getStats(): TabChiefStats {
+    return {
+      ...this.stats,
+      settleTimes: [...this.stats.settleTimes],
+      tenures: [...this.stats.tenures],
+      currentTenure: this.tenureStartedAt === null ? null : Date.now() - this.tenureStartedAt,
+      heartbeatJitter: { ...this.stats.heartbeatJitter },
+      messagesSent: { ...this.stats.messagesSent },
+      messagesReceived: { ...this.stats.messagesReceived },
+    };
+  }
+
+  /**
+   * Called with every measurement counted in getStats(), e.g. to forward it to analytics
+   *
+   * @param callback - Function to call with each metric
+   * @returns Function that removes the callback
+   */
+  public onMetric(callback: MetricCallback): () => void {
+    this.metricCallbacks.push(callback);
+    return () => this.offMetric(callback);
+  }
+
+  /**
+   * Removes a metric callback
+   *
+   * @param callback - The callback function to remove
+   */
+  public offMetric(callback: MetricCallback): void {
+    const index = this.metricCallbacks.indexOf(callback);
+    if (index !== -1) {
+      this.metricCallbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Called when an exclusive task, a cleanup or a callback fails,
+   * including failures in named roles
+   *
+   * @param callback - Function to call with the error and where it occurred
+   * @returns Function that removes the callback
+   */
+  public onError(callback: ErrorCallback): () => void {
+    this.errorCallbacks.push(callback);
+    return () => this.offError(callback);
+  }
+
+  /**
+   * Removes an error callback
+   *
+   * @param callback - The callback function to remove
+   */
+  public offError(callback: ErrorCallback): void {
+    const index = this.errorCallbacks.indexOf(callback);
+    if (index !== -1) {
+      this.errorCallbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Iterates over the messages sent without a topic.
+   * The iterator ends when stop() is called or the signal is aborted.
+   *
+   * @param options - Iterator options
+   */
+  public messages<T>(options?: IteratorOptions): AsyncIterableIterator<ReceivedMessage<T>>;
+  /**
+   * Iterates over the messages of a single topic
+   *
+   * @param topic - Topic from the event map
+   * @param options - Iterator options
+   */
+  public messages<K extends keyof Events & string>(
+    topic: K,
+    options?: IteratorOptions
+  ): AsyncIterableIterator<ReceivedMessage<Events[K]>>;
+  public messages(
+    topicOrOptions?: string | IteratorOptions,
+    topicOptions?: IteratorOptions
+  ): AsyncIterableIterator<ReceivedMessage> {
+    const topic = typeof topicOrOptions === 'string' ? topicOrOptions : undefined;
+    const options = typeof topicOrOptions === 'string' ? topicOptions : topicOrOptions;
+
+    return this.iterate<ReceivedMessage>((push) => {
+      const callback: MessageCallback<unknown> = (data, info, sender) => push({ data, info, sender });
+      return topic === undefined
+        ? this.onMessage(callback)
+        : this.onMessage(topic as keyof Events & string, callback);
+    }, options);
+  }
+
+  /**
+   * Iterates over the states of this tab, starting with the current one.
+   * The iterator yields STOPPED and ends when stop() is called, or ends when
+   * the signal is aborted.
+   *
+   * @param options - Iterator options
+   */
+  public states(options?: IteratorOptions): AsyncIterableIterator<TabState> {
+    return this.iterate<TabState>((push) => {
+      push(this.state);
+      return this.onStateChange((state) => push(state));
+    }, options);
+  }
+
+  /**
+   * Iterates over the states of this tab, as states() does
+   */
+  public [Symbol.asyncIterator](): AsyncIterableIterator<TabState> {
+    return this.states();
+  }
+
+  /**
+   * Observes the state of this tab, starting with the current one.
+   * Follows the Observable and Svelte store contracts; complete is called on stop().
+   *
+   * @param observer - Observer or function called with each state
+   * @returns Subscription that stops observing when called or unsubscribed
+   */
+  public subscribe(observer: StateObserver | ((state: TabState) => void)): Subscription {
+    const target: StateObserver = typeof observer === 'function' ? { next: observer } : observer;
+
+    const removeCallback = this.onStateChange((state) => target.next?.(state));
+    const unsubscribe = (): void => {
+      removeCallback();
+      this.openStreams.delete(complete);
+    };
+    const complete = (): void => {
+      unsubscribe();
+      try {
+        target.complete?.();
+      } catch (error) {
+        this.reportError('Error in subscribe observer', error, 'callback');
+      }
+    };
+    this.openStreams.add(complete);
+
+    try {
+      target.next?.(this.state);
+    } catch (error) {
+      this.reportError('Error in subscribe observer', error, 'callback');
+    }
+
+    return Object.assign(unsubscribe, { unsubscribe });
+  }
+
+  /**
+   * Returns this instance for Observable interop (e.g. RxJS from())
+   */
+  public ['@@observable'](): this {
+    return this;
+  }
+
+  /**
+   * Creates an async iterator over the values pushed by a subscription
+   *
+   * @param subscribe - Registers a push function and returns its unsubscribe function
+   */
+  private iterate<T>(
+    subscribe: (push: (value: T) => void) => () => void,
+    options?: IteratorOptions
+  ): AsyncIterableIterator<T> {
+    const signal = options?.signal;
+    const end = (): void => queue.end();
+    const abort = (): void => {
+      queue.return();
+    };
+    const queue: AsyncQueue<T> = new AsyncQueue<T>(() => {
+      unsubscribe();
+      this.openStreams.delete(end);
+      signal?.removeEventListener('abort', abort);
+    });
+    const unsubscribe = subscribe((value) => queue.push(value));
+
+    if (signal?.aborted) {
+      abort();
+      return queue;
+    }
+    this.openStreams.add(end);
+    signal?.addEventListener('abort', abort);
+    return queue;
+  }
+
+  /**
+   * Returns a Promise settling once a condition holds.
+   * Rejects when the tab is stopped (but not suspended) before that, or on abort or timeout.
+   *
+   * @param description - What is awaited, for the timeout error
+   * @param isSettled - Condition, checked now and on every state or Chief change
+   * @param getValue - Value to resolve with once the condition holds
+   */
+  private waitFor<T>(
+    description: string,
+    isSettled: () => boolean,
+    getValue: () => T,
+    options?: WaitOptions
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const signal = options?.signal;
+      if (signal?.aborted) {
+        reject(signal.reason ?? new Error('[TabChief] Wait was aborted'));
+        return;
+      }
+
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      let removeCallbacks: (() => void)[] = [];
+      const settle = (error?: unknown): void => {
+        if (timer !== null) {
+          clearTimeout(timer);
+        }
+        for (const remove of removeCallbacks) {
+          remove();
+        }
+        signal?.removeEventListener('abort', abort);
+
+        if (error === undefined) {
+          resolve(getValue());
+        } else {
+          reject(error);
+        }
+      };
+      const abort = (): void => settle(signal?.reason ?? new Error('[TabChief] Wait was aborted'));
+      const check = (): boolean => {
+        if (isSettled()) {
+          settle();
+          return true;
+        }
+        if (this.state === TabState.STOPPED && !this.suspended) {
+          settle(new Error('[TabChief] TabChief was stopped'));
+          return true;
+        }
+        return false;
+      };
+
+      if (check()) {
+        return;
+      }
+      removeCallbacks = [this.onStateChange(check), this.onChiefChange(check)];
+      signal?.addEventListener('abort', abort);
+      if (options?.timeout !== undefined) {
+        timer = setTimeout(() => {
+          settle(new Error(`[TabChief] Timed out waiting for ${description}`));
+        }, options.timeout);
+      }
+    });
+  }
+
+  /**
+   * Ends all open iterators and subscriptions
+   */
+  private endStreams(): void {
+    const streams = [...this.openStreams];
+    this.openStreams.clear();
+    for (const end of streams) {
+      end();
+    }
+  }
+
+  /**
+   * Returns the checkpoint store, creating it on first use
+   */
+  private getCheckpointStore(): CheckpointStore {
+    if (!this.checkpointStore) {
+      this.checkpointStore = this.createCheckpointStore(this.channelName);
+      if (this.isChief) {
+        this.claimCheckpointTerm();
+      }
+    }
+    return this.checkpointStore;
+  }
+
+  /**
+   * Records our term in the checkpoint store, so it rejects the writes of earlier Chiefs
+   */
+  private claimCheckpointTerm(): void {
+    const store = this.checkpointStore;
+    if (!store) {
+      return;
+    }
+
+    const leaderSince = this.tenureStartedAt ?? Date.now();
+    store.claimTerm(this.currentTerm, leaderSince).catch((error) => {
+      this.reportError('Failed to record the term for checkpoints', error, 'checkpoint');
+    });
+  }
+
+  /**
+   * Returns the election of a named role, creating (and starting) it if needed
+   */
+  private getRole(role: string): TabChief {
+    if (this.roleElection) {
+      throw new Error('[TabChief] Named roles cannot be nested');
+    }
+
+    let election = this.roles.get(role);
+    if (election) {
+      return election;
+    }
+
+    election = new TabChief(
+      {
+        ...this.options,
+        channelName: `${this.channelName}:${role}`,
+        transport: () => this.createRoleTransport(role),
+        replay: undefined,
+      },
+      {
+        role,
+        tabId: this.tabId,
+        creationTimestamp: this.creationTimestamp,
+        balancing: this.options.roleBalancing ?? 'none',
+      }
+    );
+    this.roles.set(role, election);
+    election.onError((error, context) => this.notifyErrorCallbacks(error, context));
+
+    if (this.transport) {
+      election.start();
+    }
+    return election;
+  }
+
+  /**
+   * Creates a transport for a named role, multiplexed over our own transport
+   */
+  private createRoleTransport(role: string): Transport {
+    const transport = this.transport;
+
+    return {
+      // Our current transport, which replaces the coordinator's after a fallback to tab election
+      send: (message) =>
+        (this.transport ?? transport)?.send({
+          type: MessageType.ROLE,
+          senderId: message.senderId,
+          timestamp: message.timestamp,
+          role,
+          message,
+        }),
+      subscribe: (listener) => {
+        this.roleListeners.set(role, listener);
+        return () => {
+          if (this.roleListeners.get(role) === listener) {
+            this.roleListeners.delete(role);
+          }
+        };
+      },
+      close: () => {},
+    };
+  }
+
+  /**
+   * Handles incoming messages from the transport
+   */
+  private handleMessage(message: ChannelMessage): void {
+    // Messages of named roles are handled by the role's own election
+    if (message.type === MessageType.ROLE) {
+      if (!this.roleElection) {
+        this.roleListeners.get(message.role)?.(message.message);
+      }
+      return;
+    }
+
+    // Ignore messages from self (except for DATA which we already handle locally)
+    if (message.senderId === this.tabId) {
+      return;
+    }
+
+    // Tabs of the 1.0.0 release do not send a protocol version
+    if (message.protocol === undefined) {
+      this.handleLegacyMessage(message);
+      return;
+    }
+
+    // Tabs speaking another protocol version cannot be understood
+    if (message.protocol !== PROTOCOL_VERSION) {
+      this.log('Ignoring message with incompatible protocol', {
+        from: message.senderId.slice(0, 8),
+        protocol: message.protocol,
+      });
+      return;
+    }
+
+    const received = this.stats.messagesReceived;
+    received[message.type] = (received[message.type] ?? 0) + 1;
+
+    if (!this.checkAppVersion(message)) {
+      return;
+    }
+
+    this.log(`Received ${message.type} message`, {
+      from: message.senderId.slice(0, 8),
+      messageType: message.type,
+    });
+
+    switch (message.type) {
+      case MessageType.HEARTBEAT:
+        this.handleHeartbeat(message);
+        break;
+
+      case MessageType.ELECTION:
+        this.replayHistoryTo(message.senderId);
+        this.handleElectionRequest(
+          message.senderId,
+          message.timestamp,
+          message.priority ?? DEFAULT_PRIORITY,
+          message.visible ?? true,
+          message.appVersion
+        );
+        break;
+
+      case MessageType.ALIVE:
+        this.handleAliveResponse(
+          message.senderId,
+          message.timestamp,
+          message.priority ?? DEFAULT_PRIORITY,
+          message.visible ?? true,
+          message.appVersion
+        );
+        break;
+
+      case MessageType.VICTORY:
+        this.handleVictory(message);
+        break;
+
+      case MessageType.DATA:
+        // Directed messages only reach their target
+        if (message.targetId !== undefined) {
+          if (message.targetId === this.tabId) {
+            this.notifyMessageCallbacks(message, false);
+          }
+          break;
+        }
+
+        this.recordReplayHistory(message);
+        this.notifyMessageCallbacks(message, false);
+        break;
+
+      case MessageType.SHUTDOWN:
+      case MessageType.ABDICATE:
+        this.handleShutdown(message.senderId);
+        break;
+
+      case MessageType.REQUEST:
+        this.handleRequest(message);
+        break;
+
+      case MessageType.RESPONSE:
+        this.handleResponse(message);
+        break;
+
+      case MessageType.STATE_PATCH:
+        this.handleStatePatch(message);
+        break;
+
+      case MessageType.STATE_SYNC:
+        this.handleStateSync(message);
+        break;
+
+      case MessageType.STATE_SNAPSHOT:
+        this.handleStateSnapshot(message);
+        break;
+
+      case MessageType.REPLAY:
+        this.handleReplay(message);
+        break;
+
+      case MessageType.PRESENCE:
+        this.handlePresence(message);
+        break;
+
+      case MessageType.LEAVE:
+        this.removeTab(message.senderId);
+        break;
+
+      case MessageType.HANDOFF:
+        this.handleHandoff(message);
+        break;
+
+      case MessageType.TRANSFER:
+        this.handleTransfer(message);
+        break;
+
+      case MessageType.TRANSFER_ACCEPT:
+        this.handleTransferAccept(message);
+        break;
+
+      case MessageType.LEADERSHIP_REQUEST:
+        this.handleLeadershipRequest(message);
+        break;
+
+      default:
+        // Sent by a newer build; safe to ignore
+        this.log('Ignoring unknown message type', {
+          messageType: (message as ChannelMessage).type,
+        });
+    }
+  }
+
+  /**
+   * Handles a message from a tab of the 1.0.0 release. Those tabs know no terms and
+   * keep their leadership in every conflict, so a 1.0.0 Chief is always followed.
+   */
+  private handleLegacyMessage(message: ChannelMessage): void {
+    if (this.roleElection) {
+      return;
+    }
+
+    this.log(`Received ${message.type} message from a 1.0.0 tab`, {
+      from: message.senderId.slice(0, 8),
+      messageType: message.type,
+    });
+
+    switch (message.type) {
+      case MessageType.HEARTBEAT:
+      case MessageType.VICTORY:
+        this.followLegacyChief(message.senderId);
+        break;
+
+      case MessageType.ELECTION:
+        this.handleElectionRequest(
+          message.senderId,
+          message.timestamp,
+          DEFAULT_PRIORITY,
+          true,
+          undefined
+        );
+        break;
+
+      case MessageType.ALIVE:
+        this.handleAliveResponse(
+          message.senderId,
+          message.timestamp,
+          DEFAULT_PRIORITY,
+          true,
+          undefined
+        );
+        break;
+
+      case MessageType.DATA:
+        this.recordReplayHistory(message);
+        this.notifyMessageCallbacks(message, false);
+        break;
+
+      case MessageType.SHUTDOWN:
+        this.handleShutdown(message.senderId);
+        break;
+
+      default:
+        this.log('Ignoring message type unknown to 1.0.0 tabs', { messageType: message.type });
+    }
+  }
+
+  /**
+   * Follows a Chief of the 1.0.0 release, stepping down if this tab is Chief
+   */
+  private followLegacyChief(senderId: string): void {
+    if (this.usesWebLocks() || this.state === TabState.STOPPED || this.state === TabState.IDLE) {
+      // 1.0.0 tabs do not take part in the lock queue
+      return;
+    }
+
+    if (this.state === TabState.CHIEF) {
+      this.warn('⚠️ Conflicting Chief detected, yielding to a 1.0.0 tab', {
+        conflictingChief: senderId.slice(0, 8),
+      });
+      this.stats.conflictsResolved += 1;
+      this.stats.conflictsYielded += 1;
+      this.recordMetric('conflict.yielded', 1);
+      this.notifyConflictCallbacks({
+        chiefId: senderId,
+        term: 0,
+        localTerm: this.currentTerm,
+        yielded: true,
+      });
+    }
+    this.trackHeartbeatCadence(senderId, undefined);
+    this.becomeFollower(senderId);
+  }
+
+  /**
+   * Returns true if leadership is held via the Web Locks API
+   */
+  private usesWebLocks(): boolean {
+    if (this.electionMode === 'bully') {
+      return false;
+    }
+    if (this.electionMode === 'auto') {
+      return isWebLocksSupported();
+    }
+    return true;
+  }
+
+  /**
+   * Queues for the leadership lock; the lock is granted (and victory declared)
+   * as soon as no other tab holds it
+   */
+  private requestLeadershipLock(): void {
+    this.log('Requesting leadership lock', { name: this.channelName });
+    this.markElectionStarted();
+    this.setState(TabState.ELECTING);
+
+    // Ask the current lock holder (if any) to announce itself
+    this.broadcast({
+      type: MessageType.ELECTION,
+      senderId: this.tabId,
+      timestamp: this.creationTimestamp,
+    });
+
+    const controller = new AbortController();
+    this.lockController = controller;
+
+    navigator.locks
+      .request(this.channelName, { signal: controller.signal }, () => {
+        // Ignore grants for a request that was abandoned by stop()
+        if (this.lockController !== controller) {
+          return undefined;
+        }
+
+        return new Promise<void>((resolve) => {
+          this.releaseLock = resolve;
+          this.declareVictory();
+        });
+      })
+      .catch((error: unknown) => {
+        if (!controller.signal.aborted) {
+          this.reportError('Error requesting leadership lock', error, 'lock');
+        }
+      });
+  }
+
+  /**
+   * Aborts a pending leadership lock request
+   *
+   * @returns Function releasing the held lock (no-op if none is held)
+   */
+  private detachLeadershipLock(): () => void {
+    const releaseLock = this.releaseLock;
+    this.releaseLock = null;
+
+    if (this.lockController) {
+      this.lockController.abort();
+      this.lockController = null;
+    }
+
+    return () => {
+      if (releaseLock) {
+        this.log('Releasing leadership lock');
+        releaseLock();
+      }
+    };
+  }
+
+  /**
+   * Starts a new election
+   */
+  private startElection(): void {
+    // Debounce rapid elections (e.g., from rapid tab reloading)
+    if (this.electionDebounceTimer) {
+      this.log('Election debounced (rapid retry)');
+      return;
+    }
+
+    // Following a coordinator, only ask it to announce itself
+    if (this.coordinated) {
+      this.log('Asking the coordinator to announce itself');
+      if (this.state !== TabState.FOLLOWER) {
+        this.setState(TabState.ELECTING);
+      }
+      if (this.currentChiefId === null && this.coordinatorTimer === null) {
+        this.coordinatorTimer = this.clock.setTimeout(() => {
+          this.coordinatorTimer = null;
+          this.fallBackToElection('Coordinator did not answer', { timeout: this.electionTimeout });
+        }, this.electionTimeout);
+      }
+      this.broadcast({
+        type: MessageType.ELECTION,
+        senderId: this.tabId,
+        timestamp: this.creationTimestamp,
+      });
+      return;
+    }
+
+    // Stay out of elections for a while after abdicating
+    const cooldown = this.electionCooldownUntil - Date.now();
+    if (cooldown > 0) {
+      this.log('Election postponed (abdication cooldown)', { cooldown });
+      this.setState(TabState.FOLLOWER);
+      this.clearElectionTimer();
+      this.electionTimer = this.clock.setTimeout(() => {
+        this.startElection();
+      }, cooldown);
+      return;
+    }
+
+    this.log('Starting election', { timeout: this.electionTimeout });
+    this.markElectionStarted();
+
+    this.electionDebounceTimer = setTimeout(() => {
+      this.electionDebounceTimer = null;
+    }, ELECTION_DEBOUNCE_TIME);
+
+    this.setState(TabState.ELECTING);
+    this.clearElectionTimer();
+    this.currentPriority = this.evaluatePriority();
+
+    // Broadcast election request
+    this.log('Broadcasting ELECTION message', { priority: this.currentPriority });
+    this.broadcast({
+      type: MessageType.ELECTION,
+      senderId: this.tabId,
+      timestamp: this.creationTimestamp,
+      priority: this.currentPriority,
+      visible: isDocumentVisible(),
+    });
+
+    // Set timeout - if no ALIVE response, declare victory
+    this.electionTimer = this.clock.setTimeout(() => {
+      this.declareVictory();
+    }, this.electionTimeout);
+  }
+
+  /**
+   * Declares this tab as the new Chief
+   */
+  private declareVictory(): void {
+    this.currentTerm += 1;
+    this.info('🏆 Declaring victory - becoming Chief!', { term: this.currentTerm });
+
+    this.clearElectionTimer();
+    this.setState(TabState.CHIEF);
+    this.setChiefId(this.tabId);
+    this.settleLeadershipRequest(true);
+    // Tabs that have not used checkpoints yet record their term on first use
+    this.claimCheckpointTerm();
+
+    // Broadcast victory
+    this.log('Broadcasting VICTORY message');
+    this.broadcast({
+      type: MessageType.VICTORY,
+      senderId: this.tabId,
+      timestamp: Date.now(),
+      term: this.currentTerm,
+      priority: this.currentPriority,
+      visible: isDocumentVisible(),
+    });
+
+    // Start heartbeat
+    this.log('Starting heartbeat', { interval: this.heartbeatInterval });
+    this.startHeartbeat();
+
+    // Run all exclusive tasks
+    this.log('Running exclusive tasks', { taskCount: this.exclusiveTasks.length });
+    this.runAllTasks();
+  }
+
+  /**
+   * Handles heartbeat from current Chief
+   */
+  private handleHeartbeat(message: HeartbeatMessage): void {
+    const { senderId } = message;
+    const senderPriority = message.priority ?? DEFAULT_PRIORITY;
+    const senderTerm = message.term ?? 0;
+
+    if (senderTerm < this.currentTerm) {
+      this.log('Ignoring heartbeat from stale term', {
+        from: senderId.slice(0, 8),
+        term: senderTerm,
+        currentTerm: this.currentTerm,
+      });
+      return;
+    }
+
+    if (this.state === TabState.CHIEF && this.usesWebLocks()) {
+      // The lock guarantees a single Chief, so this is a stale sender
+      this.log('Ignoring heartbeat from non-lock holder', { from: senderId.slice(0, 8) });
+      return;
+    }
+
+    if (this.state === TabState.CHIEF && senderId !== this.tabId) {
+      // Another tab claims to be Chief - newer term wins, then the tie-breaker
+      this.warn('⚠️ Conflicting Chief detected', { conflictingChief: senderId.slice(0, 8) });
+      const yielded = this.resolveConflict(
+        senderId,
+        senderTerm,
+        senderPriority,
+        message.visible ?? true,
+        message.appVersion
+      );
+      if (yielded) {
+        this.log('Yielding to other Chief (higher priority)');
+      } else {
+        this.log('Maintaining Chief status (we have priority)');
+      }
+      return;
+    }
+
+    if (this.state === TabState.ELECTING || this.state === TabState.FOLLOWER) {
+      this.currentTerm = senderTerm;
+      this.trackHeartbeatCadence(senderId, message.interval);
+      this.becomeFollower(senderId);
+      this.trackChiefVisibility(senderPriority, message.visible ?? true);
+
+      // Take over from a Chief running an older build
+      if (this.prefersVersion(this.appVersion, message.appVersion) && !this.usesWebLocks()) {
+        this.log('Chief runs an older app version, claiming leadership', {
+          chiefVersion: message.appVersion,
+        });
+        this.startElection();
+      }
+    }
+  }
+
+  /**
+   * Handles election request from another tab
+   */
+  private handleElectionRequest(
+    senderId: string,
+    senderTimestamp: number,
+    senderPriority: number,
+    senderVisible: boolean,
+    senderAppVersion: string | undefined
+  ): void {
+    if (this.usesWebLocks() || this.hostsCoordinator || this.coordinated) {
+      // The lock queue or the coordinator decides leadership; the Chief just announces itself
+      if (this.state === TabState.CHIEF) {
+        this.sendHeartbeat();
+      }
+      return;
+    }
+
+    // Our priority may have changed since the last election
+    this.currentPriority = this.evaluatePriority();
+    if (
+      this.state === TabState.CHIEF &&
+      (this.shouldHandOffTo(senderPriority, senderVisible) ||
+        this.isOutrankedBy(senderPriority, senderAppVersion) ||
+        this.prefersVersion(senderAppVersion, this.appVersion))
+    ) {
+      this.handOffTo(senderId);
+      return;
+    }
+
+    if (this.state !== TabState.CHIEF && this.electionCooldownUntil > Date.now()) {
+      this.log('Not responding (abdication cooldown)');
+      return;
+    }
+
+    const shouldYield = this.shouldYieldTo(
+      senderId,
+      senderTimestamp,
+      senderPriority,
+      senderVisible,
+      senderAppVersion
+    );
+    this.log('Handling election request', {
+      from: senderId.slice(0, 8),
+      shouldYield,
+      myPriority: this.currentPriority,
+      theirPriority: senderPriority,
+      myTimestamp: this.creationTimestamp,
+      theirTimestamp: senderTimestamp,
+    });
+
+    // If we have higher priority (higher priority value, older or smaller ID), respond with ALIVE
+    if (!shouldYield) {
+      this.log('Responding with ALIVE (we have priority)');
+      this.broadcast({
+        type: MessageType.ALIVE,
+        senderId: this.tabId,
+        timestamp: this.creationTimestamp,
+        priority: this.currentPriority,
+        visible: isDocumentVisible(),
+      });
+
+      // Start our own election if not already Chief
+      if (this.state !== TabState.CHIEF) {
+        this.log('Starting our own election');
+        this.startElection();
+      }
+    } else {
+      this.log('Not responding (they have priority)');
+    }
+  }
+
+  /**
+   * Handles ALIVE response from another tab with higher priority
+   */
+  private handleAliveResponse(
+    senderId: string,
+    senderTimestamp: number,
+    senderPriority: number,
+    senderVisible: boolean,
+    senderAppVersion: string | undefined
+  ): void {
+    if (this.state === TabState.ELECTING && !this.usesWebLocks()) {
+      // Someone with higher priority is alive, wait for their victory
+      if (
+        this.shouldYieldTo(senderId, senderTimestamp, senderPriority, senderVisible, senderAppVersion)
+      ) {
+        this.log('Received ALIVE from higher priority tab, becoming Follower', {
+          from: senderId.slice(0, 8),
+        });
+        this.clearElectionTimer();
+        this.setState(TabState.FOLLOWER);
+        this.resetElectionTimeout();
+      }
+    }
+  }
+
+  /**
+   * Handles victory announcement from another tab
+   */
+  private handleVictory(message: VictoryMessage): void {
+    const { senderId } = message;
+    const senderTerm = message.term ?? 0;
+
+    if (senderId === this.tabId) {
+      return;
+    }
+
+    if (senderTerm < this.currentTerm) {
+      this.log('Ignoring VICTORY from stale term', {
+        from: senderId.slice(0, 8),
+        term: senderTerm,
+        currentTerm: this.currentTerm,
+      });
+      return;
+    }
+
+    this.log('Received VICTORY announcement', { from: senderId.slice(0, 8) });
+
+    if (this.state === TabState.CHIEF && this.usesWebLocks()) {
+      this.log('Ignoring VICTORY from non-lock holder', { from: senderId.slice(0, 8) });
+      return;
+    }
+
+    if (this.state === TabState.CHIEF) {
+      // Conflict - use tie-breaker
+      this.log('⚠️ Victory conflict - both tabs think they are Chief');
+      const yielded = this.resolveConflict(
+        senderId,
+        senderTerm,
+        message.priority ?? DEFAULT_PRIORITY,
+        message.visible ?? true,
+        message.appVersion
+      );
+      if (yielded) {
+        this.log('Yielding to other Chief');
+      } else {
+        // Re-declare our victory
+        this.log('Maintaining Chief status, re-declaring victory');
+        this.broadcast({
+          type: MessageType.VICTORY,
+          senderId: this.tabId,
+          timestamp: Date.now(),
+          term: this.currentTerm,
+          priority: this.currentPriority,
+          visible: isDocumentVisible(),
+        });
+      }
+      return;
+    }
+
+    this.currentTerm = senderTerm;
+    this.becomeFollower(senderId);
+  }
+
+  /**
+   * Resolves a dual-Chief situation: the newer term wins, equal terms use
+   * the tie-breaker. Steps down if the other tab wins.
+   *
+   * @returns True if this tab yielded
+   */
+  private resolveConflict(
+    senderId: string,
+    senderTerm: number,
+    senderPriority: number,
+    senderVisible: boolean,
+    senderAppVersion: string | undefined
+  ): boolean {
+    const localTerm = this.currentTerm;
+    const yielded =
+      senderTerm > localTerm ||
+      this.shouldYieldTo(senderId, Date.now(), senderPriority, senderVisible, senderAppVersion);
+
+    this.stats.conflictsResolved += 1;
+    if (yielded) {
+      this.stats.conflictsYielded += 1;
+    }
+    this.recordMetric(yielded ? 'conflict.yielded' : 'conflict.kept', 1);
+    this.notifyConflictCallbacks({ chiefId: senderId, term: senderTerm, localTerm, yielded });
+
+    if (yielded) {
+      this.currentTerm = senderTerm;
+      this.becomeFollower(senderId);
+    }
+    return yielded;
+  }
+
+  /**
+   * Handles shutdown announcement from current Chief
+   */
+  private handleShutdown(senderId: string): void {
+    if (senderId === this.currentChiefId) {
+      // Chief is leaving, start new election
+      this.info('Chief is shutting down, starting new election', {
+        chiefId: senderId.slice(0, 8),
+      });
+      this.setChiefId(null);
+
+      if (this.usesWebLocks()) {
+        // Still queued for the lock, which is granted once the Chief releases it
+        this.setState(TabState.ELECTING);
+      } else {
+        this.startElection();
+      }
+    }
+  }
+
+  /**
+   * Handles a leadership handoff from the Chief
+   */
+  private handleHandoff(message: HandoffMessage): void {
+    if (message.targetId !== this.tabId || this.state === TabState.CHIEF || this.usesWebLocks()) {
+      return;
+    }
+
+    this.info('Leadership handed over', { from: message.senderId.slice(0, 8) });
+    // A tab that just started has not seen the Chief's term yet
+    this.currentTerm = Math.max(this.currentTerm, message.term ?? 0);
+    this.declareVictory();
+  }
+
+  /**
+   * Handles a leadership transfer offer; accepts if it comes from our Chief
+   */
+  private handleTransfer(message: TransferMessage): void {
+    if (message.targetId !== this.tabId || message.senderId !== this.currentChiefId) {
+      return;
+    }
+
+    this.log('Accepting leadership transfer', { from: message.senderId.slice(0, 8) });
+    this.currentTerm = Math.max(this.currentTerm, message.term ?? 0);
+    this.broadcast({
+      type: MessageType.TRANSFER_ACCEPT,
+      senderId: this.tabId,
+      timestamp: Date.now(),
+      targetId: message.senderId,
+      term: this.currentTerm,
+    });
+  }
+
+  /**
+   * Handles the acceptance of our transfer offer by stepping down in favour of its sender
+   */
+  private handleTransferAccept(message: TransferAcceptMessage): void {
+    const transfer = this.pendingTransfer;
+    if (message.targetId !== this.tabId || transfer?.targetId !== message.senderId) {
+      return;
+    }
+
+    clearTimeout(transfer.timer);
+    this.pendingTransfer = null;
+
+    if (this.state !== TabState.CHIEF) {
+      transfer.resolve(false);
+      return;
+    }
+    this.handOffTo(message.senderId).then(() => transfer.resolve(true));
+  }
+
+  /**
+   * Handles a follower asking for leadership by transferring it
+   */
+  private handleLeadershipRequest(message: LeadershipRequestMessage): void {
+    if (message.targetId !== this.tabId || this.state !== TabState.CHIEF || this.pendingTransfer) {
+      return;
+    }
+
+    this.log('Leadership requested', { by: message.senderId.slice(0, 8) });
+    this.transferTo(message.senderId);
+  }
+
+  /**
+   * Resolves a pending transfer (if any) and cancels its timeout
+   */
+  private settleTransfer(transferred: boolean): void {
+    if (this.pendingTransfer) {
+      clearTimeout(this.pendingTransfer.timer);
+      this.pendingTransfer.resolve(transferred);
+      this.pendingTransfer = null;
+    }
+  }
+
+  /**
+   * Resolves a pending leadership request (if any) and cancels its timeout
+   */
+  private settleLeadershipRequest(granted: boolean): void {
+    if (this.leadershipRequest) {
+      clearTimeout(this.leadershipRequest.timer);
+      this.leadershipRequest.resolve(granted);
+      this.leadershipRequest = null;
+    }
+  }
+
+  /**
+   * Gives up leadership without naming a successor: runs cleanups, then
+   * announces ABDICATE (and releases the lock) so the other tabs elect a new Chief.
+   * This tab rejoins the election once the cooldown expires.
+   */
+  private stepDown(cooldown: number): Promise<void> {
+    this.log('👋 Abdicating', { cooldown });
+
+    this.electionCooldownUntil = Date.now() + cooldown;
+    const releaseLock = this.detachLeadershipLock();
+
+    this.stopHeartbeat();
+    this.setState(TabState.FOLLOWER);
+    this.setChiefId(null);
+
+    // Rejoin once the cooldown expires (unless a new Chief is seen first)
+    this.clearElectionTimer();
+    this.electionTimer = this.clock.setTimeout(() => {
+      this.electionTimer = null;
+      if (this.usesWebLocks()) {
+        this.requestLeadershipLock();
+      } else {
+        this.startElection();
+      }
+    }, cooldown);
+
+    const announce = (): void => {
+      releaseLock();
+      this.broadcast({
+        type: MessageType.ABDICATE,
+        senderId: this.tabId,
+        timestamp: Date.now(),
+      });
+    };
+
+    const pendingCleanups = this.runCleanups();
+    if (pendingCleanups) {
+      return pendingCleanups.then(announce);
+    }
+    announce();
+    return Promise.resolve();
+  }
+
+  /**
+   * Transitions this tab to Follower state
+   *
+   * @returns Promise settling once async cleanups of the lost leadership finish,
+   * or null if there are none
+   */
+  private becomeFollower(chiefId: string): Promise<void> | null {
+    const wasChief = this.state === TabState.CHIEF;
+
+    this.info(wasChief ? '👥 Losing Chief status, becoming Follower' : 'Becoming Follower', {
+      chiefId: chiefId.slice(0, 8),
+    });
+
+    this.setState(TabState.FOLLOWER);
+    this.setChiefId(chiefId);
+
+    // Stop heartbeat if we were Chief
+    this.stopHeartbeat();
+
+    // Run cleanup if we lost leadership
+    let pendingCleanups: Promise<void> | null = null;
+    if (wasChief) {
+      this.log('Running cleanup tasks', { cleanupCount: this.activeCleanups.length });
+      pendingCleanups = this.runCleanups();
+    }
+
+    // Reset election timeout (the lock queue or the coordinator replaces it)
+    if (!this.usesWebLocks() && !this.coordinated) {
+      this.resetElectionTimeout();
+    }
+    if (this.coordinated) {
+      this.clearCoordinatorTimer();
+    }
+
+    return pendingCleanups;
+  }
+
+  /**
+   * Updates the known Chief and re-routes pending requests if it changed
+   */
+  private setChiefId(chiefId: string | null): void {
+    if (this.currentChiefId === chiefId) {
+      return;
+    }
+
+    const previousChiefId = this.currentChiefId;
+    this.currentChiefId = chiefId;
+    this.chiefHiddenSince = null;
+    if (chiefId === null) {
+      this.lastHeartbeat = null;
+      this.chiefHeartbeatInterval = this.heartbeatInterval;
+    }
+
+    this.log('Chief changed', { chiefId: chiefId?.slice(0, 8) ?? null });
+    if (chiefId !== null) {
+      this.markElectionSettled(chiefId === this.tabId);
+    }
+    this.notifyChiefChangeCallbacks(chiefId, previousChiefId);
+
+    for (const [requestId, pending] of this.pendingRequests) {
+      if (pending.sentTo === null || pending.sentTo === chiefId) {
+        continue;
+      }
+
+      // The Chief handling this request is gone
+      if (pending.retry) {
+        this.log('Chief changed, retrying request', { requestId, method: pending.method });
+        pending.sentTo = null;
+      } else {
+        this.settleRequest(
+          requestId,
+          new Error(`[TabChief] Chief changed before request "${pending.method}" was answered`)
+        );
+      }
+    }
+
+    if (chiefId !== null) {
+      this.flushPendingRequests();
+      this.flushPendingChiefMessages();
+
+      // A newly seen Chief sends full snapshots of the shared state
+      this.requestStateSnapshots([...this.sharedStates.keys()]);
+    }
+  }
+
+  /**
+   * Delivers messages queued by sendToChief() to the current Chief
+   */
+  private flushPendingChiefMessages(): void {
+    if (this.currentChiefId === null) {
+      return;
+    }
+
+    const messages = this.pendingChiefMessages;
+    this.pendingChiefMessages = [];
+    for (const message of messages) {
+      this.sendDirected(this.currentChiefId, message);
+    }
+  }
+
+  /**
+   * Builds a user message from postMessage()-style arguments
+   */
+  private createDataMessage(args: [data: unknown] | [topic: string, payload: unknown]): DataMessage {
+    const message: DataMessage = {
+      type: MessageType.DATA,
+      senderId: this.tabId,
+      timestamp: Date.now(),
+      payload: args.length === 2 ? args[1] : args[0],
+    };
+    if (args.length === 2) {
+      message.topic = args[0];
+    }
+    return message;
+  }
+
+  /**
+   * Sends a user message to a single tab (delivered locally if it is this tab)
+   */
+  private sendDirected(tabId: string, message: DataMessage): void {
+    if (tabId === this.tabId) {
+      this.notifyMessageCallbacks(message, false);
+      return;
+    }
+
+    this.log('Sending directed message', { to: tabId.slice(0, 8), topic: message.topic });
+    this.broadcast({ ...message, targetId: tabId });
+  }
+
+  /**
+   * Sends queued requests to the current Chief
+   */
+  private flushPendingRequests(): void {
+    for (const [requestId, pending] of this.pendingRequests) {
+      if (pending.sentTo === null) {
+        this.dispatchRequest(requestId, pending);
+      }
+    }
+  }
+
+  /**
+   * Sends a request to the current Chief, runs it locally if this tab is Chief,
+   * or leaves it queued until a Chief is known
+   */
+  private dispatchRequest(requestId: string, pending: PendingRequest): void {
+    if (this.state === TabState.CHIEF) {
+      pending.sentTo = this.tabId;
+      this.executeHandler(pending.method, pending.params, this.tabId).then(
+        (result) => this.settleRequest(requestId, null, result),
+        (error: unknown) =>
+          this.settleRequest(requestId, error instanceof Error ? error : new Error(String(error)))
+      );
+      return;
+    }
+
+    if (!this.currentChiefId) {
+      this.log('No Chief known, queueing request', { requestId, method: pending.method });
+      return;
+    }
+
+    pending.sentTo = this.currentChiefId;
+    this.log('Sending request to Chief', {
+      requestId,
+      method: pending.method,
+      chiefId: this.currentChiefId.slice(0, 8),
+    });
+    this.broadcast({
+      type: MessageType.REQUEST,
+      senderId: this.tabId,
+      timestamp: Date.now(),
+      requestId,
+      targetId: this.currentChiefId,
+      method: pending.method,
+      params: pending.params,
+    });
+  }
+
+  /**
+   * Runs the registered handler for a method
+   */
+  private executeHandler(method: string, params: unknown, senderId: string): Promise<unknown> {
+    const handler = this.requestHandlers.get(method);
+    if (!handler) {
+      return Promise.reject(new Error(`[TabChief] No handler registered for "${method}"`));
+    }
+
+    try {
+      return Promise.resolve(handler(params, senderId));
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  /**
+   * Handles a request addressed to this tab as Chief
+   */
+  private handleRequest(message: RequestMessage): void {
+    if (message.targetId !== this.tabId || this.state !== TabState.CHIEF) {
+      return;
+    }
+
+    const respond = (result: unknown, error?: string): void => {
+      this.broadcast({
+        type: MessageType.RESPONSE,
+        senderId: this.tabId,
+        timestamp: Date.now(),
+        requestId: message.requestId,
+        targetId: message.senderId,
+        result,
+        error,
+      });
+    };
+
+    this.executeHandler(message.method, message.params, message.senderId).then(
+      (result) => respond(result),
+      (error: unknown) => respond(undefined, error instanceof Error ? error.message : String(error))
+    );
+  }
+
+  /**
+   * Handles a response to one of this tab's requests
+   */
+  private handleResponse(message: ResponseMessage): void {
+    if (message.targetId !== this.tabId) {
+      return;
+    }
+
+    if (message.error !== undefined) {
+      this.settleRequest(message.requestId, new Error(message.error));
+    } else {
+      this.settleRequest(message.requestId, null, message.result);
+    }
+  }
+
+  /**
+   * Resolves or rejects a pending request (no-op if already settled)
+   */
+  private settleRequest(requestId: string, error: Error | null, result?: unknown): void {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingRequests.delete(requestId);
+
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve(result);
+    }
+  }
+
+  /**
+   * Rejects all pending requests
+   */
+  private rejectPendingRequests(error: Error): void {
+    for (const requestId of [...this.pendingRequests.keys()]) {
+      this.settleRequest(requestId, error);
+    }
+  }
+
+  /**
+   * Asks the current Chief for full snapshots of the given shared state keys
+   */
+  private requestStateSnapshots(keys: string[]): void {
+    if (keys.length === 0 || !this.currentChiefId || this.currentChiefId === this.tabId) {
+      return;
+    }
+
+    this.log('Requesting shared state snapshots', { keys });
+    this.broadcast({
+      type: MessageType.STATE_SYNC,
+      senderId: this.tabId,
+      timestamp: Date.now(),
+      targetId: this.currentChiefId,
+      keys,
+    });
+  }
+
+  /**
+   * Handles shared state changes from the Chief
+   */
+  private handleStatePatch(message: StatePatchMessage): void {
+    if (message.senderId !== this.currentChiefId) {
+      return;
+    }
+
+    this.sharedStates
+      .get(message.key)
+      ?.applyPatch(message.baseVersion, message.version, message.operations);
+  }
+
+  /**
+   * Handles a snapshot request addressed to this tab as Chief
+   */
+  private handleStateSync(message: StateSyncMessage): void {
+    if (message.targetId !== this.tabId || this.state !== TabState.CHIEF) {
+      return;
+    }
+
+    for (const key of message.keys) {
+      const sharedState = this.sharedStates.get(key);
+      if (!sharedState) {
+        continue;
+      }
+
+      this.broadcast({
+        type: MessageType.STATE_SNAPSHOT,
+        senderId: this.tabId,
+        timestamp: Date.now(),
+        targetId: message.senderId,
+        key,
+        version: sharedState.version,
+        value: sharedState.value,
+      });
+    }
+  }
+
+  /**
+   * Handles a shared state snapshot from the Chief
+   */
+  private handleStateSnapshot(message: StateSnapshotMessage): void {
+    if (message.targetId !== this.tabId || message.senderId !== this.currentChiefId) {
+      return;
+    }
+
+    this.sharedStates.get(message.key)?.applySnapshot(message.version, message.value);
+  }
+
+  /**
+   * Adds a user message to the replay history (every tab keeps one, so a
+   * new Chief can continue replaying after leadership moves)
+   */
+  private recordReplayHistory(message: DataMessage): void {
+    if (this.replaySize <= 0) {
+      return;
+    }
+
+    this.replayHistory.push(message);
+    if (this.replayHistory.length > this.replaySize) {
+      this.replayHistory.splice(0, this.replayHistory.length - this.replaySize);
     }
   }
 
   /**
-   * Starts a new election
+   * Sends the recent message history to a tab that just started (Chief only)
    */
-  private startElection(): void {
-    // Debounce rapid elections (e.g., from rapid tab reloading)
-    if (this.electionDebounceTimer) {
-      this.log('Election debounced (rapid retry)');
+  private replayHistoryTo(targetId: string): void {
+    if (this.replaySize <= 0 || this.state !== TabState.CHIEF || this.replayedTo.has(targetId)) {
       return;
     }
 
-    this.log('Starting election', { timeout: this.electionTimeout });
-
-    this.electionDebounceTimer = setTimeout(() => {
-      this.electionDebounceTimer = null;
-    }, ELECTION_DEBOUNCE_TIME);
+    const cutoff = Date.now() - this.replayTtl;
+    this.replayHistory = this.replayHistory.filter((message) => message.timestamp >= cutoff);
+    this.replayedTo.add(targetId);
 
-    this.setState(TabState.ELECTING);
-    this.clearElectionTimer();
+    if (this.replayHistory.length === 0) {
+      return;
+    }
 
-    // Broadcast election request
-    this.log('Broadcasting ELECTION message');
+    this.log('Replaying message history', {
+      to: targetId.slice(0, 8),
+      count: this.replayHistory.length,
+    });
     this.broadcast({
-      type: MessageType.ELECTION,
+      type: MessageType.REPLAY,
       senderId: this.tabId,
-      timestamp: this.creationTimestamp,
+      timestamp: Date.now(),
+      targetId,
+      messages: this.replayHistory,
     });
+  }
 
-    // Set timeout - if no ALIVE response, declare victory
-    this.electionTimer = setTimeout(() => {
-      this.declareVictory();
-    }, this.electionTimeout);
+  /**
+   * Delivers replayed messages to local callbacks
+   */
+  private handleReplay(message: ReplayMessage): void {
+    if (message.targetId !== this.tabId) {
+      return;
+    }
+
+    for (const replayed of message.messages) {
+      this.recordReplayHistory(replayed);
+      this.notifyMessageCallbacks(replayed, true);
+    }
   }
 
   /**
-   * Declares this tab as the new Chief
+   * Announces this tab and starts periodic announcements and stale-entry expiry
    */
-  private declareVictory(): void {
-    this.log('🏆 Declaring victory - becoming Chief!');
+  private startPresence(): void {
+    this.stopPresence();
+    this.announcePresence(true);
 
-    this.clearElectionTimer();
-    this.setState(TabState.CHIEF);
-    this.currentChiefId = this.tabId;
+    this.presenceTimer = setInterval(() => {
+      this.announcePresence(false);
+      this.expireStaleTabs();
+    }, this.presenceInterval);
+  }
 
-    // Broadcast victory
-    this.log('Broadcasting VICTORY message');
+  /**
+   * Stops presence announcements and forgets all known tabs
+   */
+  private stopPresence(): void {
+    if (this.presenceTimer) {
+      clearInterval(this.presenceTimer);
+      this.presenceTimer = null;
+    }
+    this.tabs.clear();
+  }
+
+  /**
+   * Broadcasts this tab's presence
+   */
+  private announcePresence(join: boolean): void {
     this.broadcast({
-      type: MessageType.VICTORY,
+      type: MessageType.PRESENCE,
       senderId: this.tabId,
       timestamp: Date.now(),
+      metadata: this.metadata,
+      join,
     });
-
-    // Start heartbeat
-    this.log('Starting heartbeat', { interval: this.heartbeatInterval });
-    this.startHeartbeat();
-
-    // Run all exclusive tasks
-    this.log('Running exclusive tasks', { taskCount: this.exclusiveTasks.length });
-    this.runAllTasks();
   }
 
   /**
-   * Handles heartbeat from current Chief
+   * Handles a presence announcement from another tab
    */
-  private handleHeartbeat(senderId: string): void {
-    if (this.state === TabState.CHIEF && senderId !== this.tabId) {
-      // Another tab claims to be Chief - use tie-breaker
-      this.log('⚠️ Conflicting Chief detected', { conflictingChief: senderId.slice(0, 8) });
-      if (this.shouldYieldTo(senderId, Date.now())) {
-        this.log('Yielding to other Chief (higher priority)');
-        this.becomeFollower(senderId);
-      } else {
-        this.log('Maintaining Chief status (we have priority)');
-      }
-      return;
+  private handlePresence(message: PresenceMessage): void {
+    const isNew = !this.tabs.has(message.senderId);
+    const lastSeen = Date.now();
+    this.tabs.set(message.senderId, { metadata: message.metadata, lastSeen });
+
+    if (isNew) {
+      this.log('Tab joined', { tabId: message.senderId.slice(0, 8) });
+      this.notifyTabJoinCallbacks(this.toTabInfo(message.senderId, message.metadata, lastSeen));
     }
 
-    if (this.state === TabState.ELECTING || this.state === TabState.FOLLOWER) {
-      this.currentChiefId = senderId;
-      this.becomeFollower(senderId);
+    // Let a newly started tab know about us right away
+    if (message.join) {
+      this.announcePresence(false);
     }
   }
 
   /**
-   * Handles election request from another tab
+   * Removes a tab from the roster
    */
-  private handleElectionRequest(senderId: string, senderTimestamp: number): void {
-    const shouldYield = this.shouldYieldTo(senderId, senderTimestamp);
-    this.log('Handling election request', {
-      from: senderId.slice(0, 8),
-      shouldYield,
-      myPriority: this.creationTimestamp,
-      theirPriority: senderTimestamp,
-    });
+  private removeTab(tabId: string): void {
+    // A tab that starts again under the same id should get the replay again
+    this.replayedTo.delete(tabId);
 
-    // If we have higher priority (older or smaller ID), respond with ALIVE
-    if (!shouldYield) {
-      this.log('Responding with ALIVE (we have priority)');
-      this.broadcast({
-        type: MessageType.ALIVE,
-        senderId: this.tabId,
-        timestamp: this.creationTimestamp,
-      });
+    const tab = this.tabs.get(tabId);
+    if (!tab) {
+      return;
+    }
 
-      // Start our own election if not already Chief
-      if (this.state !== TabState.CHIEF) {
-        this.log('Starting our own election');
-        this.startElection();
+    const info = this.toTabInfo(tabId, tab.metadata, tab.lastSeen);
+    this.tabs.delete(tabId);
+    this.reportedMismatches.delete(tabId);
+
+    this.log('Tab left', { tabId: tabId.slice(0, 8) });
+    this.notifyTabLeaveCallbacks(info);
+  }
+
+  /**
+   * Removes tabs that have not announced themselves within the presence timeout
+   */
+  private expireStaleTabs(): void {
+    const cutoff = Date.now() - this.presenceTimeout;
+    for (const [tabId, tab] of [...this.tabs]) {
+      if (tab.lastSeen < cutoff) {
+        this.removeTab(tabId);
       }
-    } else {
-      this.log('Not responding (they have priority)');
     }
   }
 
   /**
-   * Handles ALIVE response from another tab with higher priority
+   * Builds the public description of a tab
    */
-  private handleAliveResponse(senderId: string, senderTimestamp: number): void {
-    if (this.state === TabState.ELECTING) {
-      // Someone with higher priority is alive, wait for their victory
-      if (this.shouldYieldTo(senderId, senderTimestamp)) {
-        this.log('Received ALIVE from higher priority tab, becoming Follower', {
-          from: senderId.slice(0, 8),
-        });
-        this.clearElectionTimer();
-        this.setState(TabState.FOLLOWER);
-        this.resetElectionTimeout();
+  private toTabInfo(id: string, metadata: TabMetadata, lastSeen: number): TabInfo {
+    return {
+      id,
+      metadata,
+      isChief: id === this.currentChiefId,
+      isSelf: id === this.tabId,
+      lastSeen,
+    };
+  }
+
+  /**
+   * Tracks this tab's visibility (visibilitychange and focus events)
+   */
+  private handleVisibilityChange(): void {
+    if (!isDocumentVisible()) {
+      this.hiddenSince ??= Date.now();
+      // Warn followers that our heartbeats may slow down
+      if (this.state === TabState.CHIEF && this.adaptiveTimeouts) {
+        this.sendHeartbeat();
       }
+      return;
+    }
+
+    this.hiddenSince = null;
+    if (this.state === TabState.CHIEF) {
+      // Let followers know right away that we are visible again
+      this.sendHeartbeat();
+    } else {
+      this.claimVisibleLeadership();
     }
   }
 
   /**
-   * Handles victory announcement from another tab
+   * Records the visibility announced in the Chief's heartbeat
    */
-  private handleVictory(senderId: string): void {
-    if (senderId === this.tabId) {
+  private trackChiefVisibility(chiefPriority: number, chiefVisible: boolean): void {
+    if (!this.preferVisible) {
       return;
     }
 
-    this.log('Received VICTORY announcement', { from: senderId.slice(0, 8) });
-
-    if (this.state === TabState.CHIEF) {
-      // Conflict - use tie-breaker
-      this.log('⚠️ Victory conflict - both tabs think they are Chief');
-      if (this.shouldYieldTo(senderId, Date.now())) {
-        this.log('Yielding to other Chief');
-        this.becomeFollower(senderId);
-      } else {
-        // Re-declare our victory
-        this.log('Maintaining Chief status, re-declaring victory');
-        this.broadcast({
-          type: MessageType.VICTORY,
-          senderId: this.tabId,
-          timestamp: Date.now(),
-        });
-      }
+    this.chiefPriority = chiefPriority;
+    if (chiefVisible) {
+      this.chiefHiddenSince = null;
       return;
     }
 
-    this.becomeFollower(senderId);
+    this.chiefHiddenSince ??= Date.now();
+    this.claimVisibleLeadership();
   }
 
   /**
-   * Handles shutdown announcement from current Chief
+   * Starts an election if this tab is visible and the Chief has been hidden
+   * for longer than the handoff delay; the Chief answers with a handoff
    */
-  private handleShutdown(senderId: string): void {
-    if (senderId === this.currentChiefId) {
-      // Chief is leaving, start new election
-      this.log('Chief is shutting down, starting new election', {
-        chiefId: senderId.slice(0, 8),
-      });
-      this.currentChiefId = null;
-      this.startElection();
+  private claimVisibleLeadership(): void {
+    if (
+      this.state !== TabState.FOLLOWER ||
+      this.usesWebLocks() ||
+      this.chiefHiddenSince === null ||
+      !isDocumentVisible()
+    ) {
+      return;
+    }
+    if (Date.now() - this.chiefHiddenSince < this.visibilityHandoffDelay) {
+      return;
+    }
+    if (this.evaluatePriority() < this.chiefPriority) {
+      return;
     }
+
+    this.log('Chief is hidden, claiming leadership', {
+      hiddenFor: Date.now() - this.chiefHiddenSince,
+    });
+    this.startElection();
   }
 
   /**
-   * Transitions this tab to Follower state
+   * Returns true if a tab that starts after this Chief has a higher priority,
+   * unless this Chief wins by running a newer app version
    */
-  private becomeFollower(chiefId: string): void {
-    const wasChief = this.state === TabState.CHIEF;
+  private isOutrankedBy(senderPriority: number, senderAppVersion: string | undefined): boolean {
+    return (
+      senderPriority > this.currentPriority &&
+      !this.prefersVersion(this.appVersion, senderAppVersion)
+    );
+  }
 
-    this.log(wasChief ? '👥 Losing Chief status, becoming Follower' : 'Becoming Follower', {
-      chiefId: chiefId.slice(0, 8),
-    });
+  /**
+   * Returns true if this (hidden) Chief should hand leadership to an electing tab
+   */
+  private shouldHandOffTo(senderPriority: number, senderVisible: boolean): boolean {
+    return (
+      this.preferVisible &&
+      senderVisible &&
+      senderPriority >= this.currentPriority &&
+      this.hiddenSince !== null &&
+      !isDocumentVisible() &&
+      Date.now() - this.hiddenSince >= this.visibilityHandoffDelay
+    );
+  }
 
-    this.setState(TabState.FOLLOWER);
-    this.currentChiefId = chiefId;
+  /**
+   * Steps down and names the successor once our cleanups have finished
+   *
+   * @returns Promise resolving once the handoff has been announced
+   */
+  private handOffTo(targetId: string): Promise<void> {
+    this.log('🤝 Handing leadership over', { to: targetId.slice(0, 8) });
 
-    // Stop heartbeat if we were Chief
-    this.stopHeartbeat();
+    const announce = (): void => {
+      this.broadcast({
+        type: MessageType.HANDOFF,
+        senderId: this.tabId,
+        timestamp: Date.now(),
+        targetId,
+        term: this.currentTerm,
+      });
+    };
 
-    // Run cleanup if we lost leadership
-    if (wasChief) {
-      this.log('Running cleanup tasks', { cleanupCount: this.activeCleanups.length });
-      this.runCleanups();
+    const pendingCleanups = this.becomeFollower(targetId);
+    if (pendingCleanups) {
+      return pendingCleanups.then(announce);
+    }
+    announce();
+    return Promise.resolve();
+  }
+
+  /**
+   * Returns true if the 'prefer-newest' policy favours a tab running `version`
+   * over one running `otherVersion` (unset versions are never preferred)
+   */
+  private prefersVersion(version: string | undefined, otherVersion: string | undefined): boolean {
+    return (
+      this.versionPolicy === 'prefer-newest' &&
+      version !== undefined &&
+      otherVersion !== undefined &&
+      compareVersions(version, otherVersion) > 0
+    );
+  }
+
+  /**
+   * Reports tabs running a different app version
+   *
+   * @returns False if the message must be ignored under the 'ignore' policy
+   */
+  private checkAppVersion(message: ChannelMessage): boolean {
+    const { senderId, appVersion } = message;
+    if (this.appVersion === undefined || appVersion === undefined || appVersion === this.appVersion) {
+      return true;
     }
 
-    // Reset election timeout
-    this.resetElectionTimeout();
+    if (!this.reportedMismatches.has(senderId)) {
+      this.reportedMismatches.add(senderId);
+      this.log('App version mismatch', { from: senderId.slice(0, 8), appVersion });
+      this.notifyVersionMismatchCallbacks({
+        tabId: senderId,
+        appVersion,
+        localAppVersion: this.appVersion,
+        newer: compareVersions(appVersion, this.appVersion) > 0,
+      });
+    }
+
+    return this.versionPolicy !== 'ignore';
   }
 
   /**
    * Determines if this tab should yield to another tab
-   * Based on creation timestamp (earlier wins) or UUID comparison (smaller wins)
+   * Based on app version (newest wins, with the 'prefer-newest' policy), then priority
+   * (higher wins), then visibility (visible wins, with preferVisible),
+   * then creation timestamp (earlier wins) or UUID comparison (smaller wins).
+   * Spread-balanced roles rank equal-priority tabs by a per-role hash instead.
    */
-  private shouldYieldTo(otherId: string, otherTimestamp: number): boolean {
+  private shouldYieldTo(
+    otherId: string,
+    otherTimestamp: number,
+    otherPriority: number,
+    otherVisible: boolean,
+    otherAppVersion: string | undefined
+  ): boolean {
+    // Newer app version wins
+    if (this.prefersVersion(otherAppVersion, this.appVersion)) {
+      return true;
+    }
+    if (this.prefersVersion(this.appVersion, otherAppVersion)) {
+      return false;
+    }
+
+    // Higher priority wins
+    if (otherPriority !== this.currentPriority) {
+      return otherPriority > this.currentPriority;
+    }
+
+    // Visible tabs win over hidden ones
+    if (this.preferVisible && otherVisible !== isDocumentVisible()) {
+      return otherVisible;
+    }
+
+    if (this.roleElection?.balancing === 'spread') {
+      const { role } = this.roleElection;
+      const otherRank = hashString(`${role}:${otherId}`);
+      const myRank = hashString(`${role}:${this.tabId}`);
+      if (otherRank !== myRank) {
+        return otherRank < myRank;
+      }
+      return otherId < this.tabId;
+    }
+
     // Earlier creation time wins
     if (otherTimestamp !== this.creationTimestamp) {
       return otherTimestamp < this.creationTimestamp;
@@ -558,28 +3390,199 @@ export class TabChief {
     this.sendHeartbeat();
 
     // Set up interval
-    this.heartbeatTimer = setInterval(() => {
+    this.heartbeatTimer = this.clock.setInterval(() => {
       this.sendHeartbeat();
     }, this.heartbeatInterval);
   }
 
   /**
-   * Sends a single heartbeat
+   * Sends a single heartbeat
+   */
+  private sendHeartbeat(): void {
+    this.currentPriority = this.evaluatePriority();
+    this.broadcast({
+      type: MessageType.HEARTBEAT,
+      senderId: this.tabId,
+      timestamp: Date.now(),
+      term: this.currentTerm,
+      priority: this.currentPriority,
+      visible: isDocumentVisible(),
+      interval: this.adaptiveTimeouts ? this.announcedHeartbeatInterval() : undefined,
+    });
+  }
+
+  /**
+   * Returns the heartbeat interval this Chief can keep up.
+   * Hidden tabs may have their main-thread timers throttled, so they announce a slower cadence.
+   */
+  private announcedHeartbeatInterval(): number {
+    if (isDocumentVisible() || this.clock !== mainThreadClock) {
+      return this.heartbeatInterval;
+    }
+    return Math.max(this.heartbeatInterval, BACKGROUND_HEARTBEAT_INTERVAL);
+  }
+
+  /**
+   * Measures the time between the current Chief's heartbeats and, with
+   * adaptiveTimeouts, learns its cadence from that and its announcement
+   */
+  private trackHeartbeatCadence(chiefId: string, announcedInterval: number | undefined): void {
+    const now = Date.now();
+    const observedInterval =
+      this.lastHeartbeat?.chiefId === chiefId ? now - this.lastHeartbeat.receivedAt : 0;
+    this.lastHeartbeat = { chiefId, receivedAt: now };
+    if (observedInterval > 0) {
+      this.recordHeartbeatInterval(observedInterval, announcedInterval ?? this.heartbeatInterval);
+    }
+
+    if (!this.adaptiveTimeouts) {
+      return;
+    }
+
+    this.chiefHeartbeatInterval = Math.max(
+      announcedInterval ?? this.heartbeatInterval,
+      observedInterval
+    );
+  }
+
+  /**
+   * Records the jitter of a heartbeat, or the heartbeats missing before it
+   */
+  private recordHeartbeatInterval(observedInterval: number, expectedInterval: number): void {
+    const missed = Math.floor(observedInterval / expectedInterval) - 1;
+    if (missed > 0) {
+      this.stats.missedHeartbeats += missed;
+      this.recordMetric('heartbeat.missed', missed);
+      return;
+    }
+
+    const jitter = Math.abs(observedInterval - expectedInterval);
+    const stats = this.stats.heartbeatJitter;
+    stats.samples += 1;
+    stats.average += (jitter - stats.average) / stats.samples;
+    stats.max = Math.max(stats.max, jitter);
+    this.recordMetric('heartbeat.jitter', jitter);
+  }
+
+  /**
+   * Returns the time to wait for the Chief's next heartbeat before starting an election
+   */
+  private currentElectionTimeout(): number {
+    if (!this.adaptiveTimeouts) {
+      return this.electionTimeout;
+    }
+    return Math.max(this.electionTimeout, this.chiefHeartbeatInterval * ADAPTIVE_TIMEOUT_HEARTBEATS);
+  }
+
+  /**
+   * Connects to the SharedWorker coordinator if configured and supported,
+   * otherwise creates the transport for a regular election
+   */
+  private connectTransport(): Transport {
+    this.coordinated = false;
+
+    const createWorker = this.options.coordinator;
+    if (createWorker && !this.roleElection) {
+      if (typeof SharedWorker === 'undefined') {
+        this.log('SharedWorker unavailable, falling back to tab election');
+      } else {
+        try {
+          const worker = createWorker();
+          const transport = new SharedWorkerTransport(worker);
+          this.watchCoordinator(worker);
+          this.coordinated = true;
+          this.log('Connected to coordinator');
+          return transport;
+        } catch (error) {
+          this.warn('Error connecting to coordinator, falling back to tab election', { error });
+        }
+      }
+    }
+
+    return this.createTransport(this.channelName, this.transportContext);
+  }
+  /**
+   * Falls back to tab election when the coordinator's SharedWorker reports an error,
+   * e.g. because its script failed to load or threw
+   */
+  private watchCoordinator(worker: SharedWorker): void {
+    const handleError = (event: Event): void => {
+      this.fallBackToElection('Coordinator failed', { error: (event as ErrorEvent).error });
+    };
+    worker.addEventListener('error', handleError);
+    this.unwatchCoordinator = () => worker.removeEventListener('error', handleError);
+  }
+
+  /**
+   * Stops following a coordinator that failed or never answered, and elects a
+   * Chief among the tabs instead
+   */
+  private fallBackToElection(reason: string, data?: Record<string, unknown>): void {
+    if (!this.coordinated || !this.transport) {
+      return;
+    }
+
+    this.warn(`${reason}, falling back to tab election`, data);
+    this.clearCoordinatorTimer();
+    this.unwatchCoordinator?.();
+    this.unwatchCoordinator = null;
+    this.unsubscribeTransport?.();
+    this.transport.close();
+
+    this.coordinated = false;
+    this.transport = this.createTransport(this.channelName, this.transportContext);
+    this.unsubscribeTransport = this.transport.subscribe((message) => {
+      this.handleMessage(message);
+    });
+    this.setChiefId(null);
+    this.startElection();
+  }
+
+
+  /**
+   * Returns the clock for heartbeat and election timers
+   */
+  private createClock(): Clock {
+    if (this.timerSource !== 'worker') {
+      return mainThreadClock;
+    }
+
+    try {
+      const clock = createWorkerClock();
+      if (clock) {
+        this.log('Using worker clock');
+        return clock;
+      }
+      this.log('Workers unavailable, using main-thread timers');
+    } catch (error) {
+      this.warn('Error starting worker clock, using main-thread timers', { error });
+    }
+    return mainThreadClock;
+  }
+
+  /**
+   * Evaluates the configured priority (called before each election)
    */
-  private sendHeartbeat(): void {
-    this.broadcast({
-      type: MessageType.HEARTBEAT,
-      senderId: this.tabId,
-      timestamp: Date.now(),
-    });
+  private evaluatePriority(): number {
+    if (typeof this.priority === 'number') {
+      return this.priority;
+    }
+
+    try {
+      const priority = this.priority();
+      return Number.isFinite(priority) ? priority : DEFAULT_PRIORITY;
+    } catch (error) {
+      this.reportError('Error evaluating priority', error, 'callback');
+      return DEFAULT_PRIORITY;
+    }
   }
 
   /**
    * Stops the heartbeat timer
    */
   private stopHeartbeat(): void {
-    if (this.heartbeatTimer) {
-      clearInterval(this.heartbeatTimer);
+    if (this.heartbeatTimer !== null) {
+      this.clock.clearInterval(this.heartbeatTimer);
       this.heartbeatTimer = null;
     }
   }
@@ -590,19 +3593,33 @@ export class TabChief {
   private resetElectionTimeout(): void {
     this.clearElectionTimer();
 
-    this.electionTimer = setTimeout(() => {
+    this.electionTimer = this.clock.setTimeout(() => {
       // Chief seems dead, start new election
-      this.currentChiefId = null;
+      if (this.currentChiefId !== null) {
+        this.stats.heartbeatTimeouts += 1;
+        this.recordMetric('heartbeat.timeout', 1);
+      }
+      this.setChiefId(null);
       this.startElection();
-    }, this.electionTimeout);
+    }, this.currentElectionTimeout());
+  }
+
+  /**
+   * Clears the election timer
+   */
+  private clearCoordinatorTimer(): void {
+    if (this.coordinatorTimer !== null) {
+      this.clock.clearTimeout(this.coordinatorTimer);
+      this.coordinatorTimer = null;
+    }
   }
 
   /**
    * Clears the election timer
    */
   private clearElectionTimer(): void {
-    if (this.electionTimer) {
-      clearTimeout(this.electionTimer);
+    if (this.electionTimer !== null) {
+      this.clock.clearTimeout(this.electionTimer);
       this.electionTimer = null;
     }
   }
@@ -613,6 +3630,7 @@ export class TabChief {
   private clearTimers(): void {
     this.stopHeartbeat();
     this.clearElectionTimer();
+    this.clearCoordinatorTimer();
 
     if (this.electionDebounceTimer) {
       clearTimeout(this.electionDebounceTimer);
@@ -623,23 +3641,209 @@ export class TabChief {
   /**
    * Broadcasts a message to all tabs
    */
-  private broadcast(message: BaseMessage): void {
-    if (this.channel) {
-      this.channel.postMessage(message);
+  private broadcast(message: ChannelMessage): void {
+    if (this.transport) {
+      this.transport.send(this.stampMessage(message));
+    }
+  }
+
+  /**
+   * Adds the protocol and app version to an outgoing message and counts it
+   */
+  private stampMessage(message: ChannelMessage): ChannelMessage {
+    const sent = this.stats.messagesSent;
+    sent[message.type] = (sent[message.type] ?? 0) + 1;
+
+    const stamped: ChannelMessage = { ...message, protocol: PROTOCOL_VERSION };
+    if (this.appVersion !== undefined) {
+      stamped.appVersion = this.appVersion;
     }
+    return stamped;
   }
 
   /**
    * Runs a single exclusive task and stores its cleanup function
    */
   private runTask(task: ExclusiveTask): void {
+    if (!this.taskController) {
+      this.taskController = new AbortController();
+    }
+
+    // Each task gets its own signal, aborted with leadership or when the task is unregistered
+    const controller = new AbortController();
+    this.taskController.signal.addEventListener('abort', () => controller.abort(), { once: true });
+    this.runningTasks.set(task, { controller });
+    const signal = controller.signal;
+
+    const supervised = this.supervisedTasks.get(task);
+    if (supervised) {
+      supervised.status = 'running';
+      supervised.nextRetryAt = undefined;
+    }
+
     try {
-      const cleanup = task();
-      if (typeof cleanup === 'function') {
-        this.activeCleanups.push(cleanup);
+      const result = task(signal, this.currentTerm);
+      if (isPromiseLike(result)) {
+        result.then(
+          (cleanup) => {
+            this.adoptCleanup(cleanup, signal, task);
+            if (supervised && !signal.aborted) {
+              supervised.failures = 0;
+            }
+          },
+          (error: unknown) => {
+            if (!signal.aborted) {
+              this.handleTaskFailure(task, error);
+            }
+          }
+        );
+      } else {
+        this.adoptCleanup(result, signal, task);
+        if (supervised) {
+          supervised.failures = 0;
+        }
       }
     } catch (error) {
-      console.error('[TabChief] Error running exclusive task:', error);
+      this.handleTaskFailure(task, error);
+    }
+  }
+
+  /**
+   * Reports a failed task and applies its supervision policy:
+   * retries with exponential backoff, then optionally abdicates
+   */
+  private handleTaskFailure(task: ExclusiveTask, error: unknown): void {
+    // Release what the failed attempt may have set up
+    const running = this.runningTasks.get(task);
+    if (running) {
+      this.runningTasks.delete(task);
+      running.controller.abort();
+    }
+
+    const supervised = this.supervisedTasks.get(task);
+    if (!supervised) {
+      this.reportError('Error running exclusive task', error, 'task');
+      return;
+    }
+
+    supervised.failures += 1;
+    supervised.lastError = error;
+    const { name, retries = 0, abdicateAfter } = supervised.options;
+    const abdicating =
+      abdicateAfter !== undefined &&
+      supervised.failures >= abdicateAfter &&
+      this.state === TabState.CHIEF &&
+      !this.hostsCoordinator;
+    // abdicateAfter keeps the task retrying until it is reached, whatever retries is set to
+    const willRetry =
+      !abdicating &&
+      (supervised.failures <= retries ||
+        (abdicateAfter !== undefined && supervised.failures < abdicateAfter));
+
+    this.reportError('Error running exclusive task', error, 'task', {
+      task: name,
+      failures: supervised.failures,
+      willRetry,
+    });
+
+    if (!willRetry) {
+      supervised.status = 'failed';
+      if (abdicating) {
+        this.warn('Exclusive task keeps failing, abdicating', {
+          task: name,
+          failures: supervised.failures,
+        });
+        this.abdicate();
+      }
+      return;
+    }
+
+    const retryDelay = supervised.options.retryDelay ?? DEFAULT_TASK_RETRY_DELAY;
+    const delay = Math.min(
+      retryDelay * 2 ** (supervised.failures - 1),
+      supervised.options.maxRetryDelay ?? DEFAULT_TASK_MAX_RETRY_DELAY
+    );
+    this.log('Retrying exclusive task', { task: name, failures: supervised.failures, delay });
+
+    supervised.status = 'retrying';
+    supervised.nextRetryAt = Date.now() + delay;
+    supervised.retryTimer = setTimeout(() => {
+      supervised.retryTimer = null;
+      if (this.state === TabState.CHIEF && this.supervisedTasks.get(task) === supervised) {
+        this.runTask(task);
+      }
+    }, delay);
+  }
+
+  /**
+   * Cancels a scheduled retry and marks the task as no longer running
+   */
+  private resetSupervision(supervised: SupervisedTask): void {
+    if (supervised.retryTimer !== null) {
+      clearTimeout(supervised.retryTimer);
+      supervised.retryTimer = null;
+    }
+    supervised.nextRetryAt = undefined;
+    if (supervised.status !== 'failed') {
+      supervised.status = 'idle';
+    }
+  }
+
+  /**
+   * Stores a task's cleanup function, or invokes it right away if
+   * leadership was lost while the task was still starting
+   */
+  private adoptCleanup(
+    cleanup: CleanupFunction | void,
+    signal: AbortSignal,
+    task: ExclusiveTask
+  ): void {
+    if (typeof cleanup !== 'function') {
+      return;
+    }
+
+    if (signal.aborted) {
+      this.log('Task finished after leadership was lost, running its cleanup');
+      this.invokeCleanup(cleanup);
+      return;
+    }
+
+    this.activeCleanups.push(cleanup);
+    const running = this.runningTasks.get(task);
+    if (running) {
+      running.cleanup = cleanup;
+    }
+  }
+
+  /**
+   * Unregisters an exclusive task, aborting it and running its cleanup if active
+   */
+  private removeExclusiveTask(task: ExclusiveTask): void {
+    const index = this.exclusiveTasks.indexOf(task);
+    if (index === -1) {
+      return;
+    }
+    this.exclusiveTasks.splice(index, 1);
+
+    const supervised = this.supervisedTasks.get(task);
+    if (supervised) {
+      this.resetSupervision(supervised);
+      this.supervisedTasks.delete(task);
+    }
+
+    const running = this.runningTasks.get(task);
+    if (!running) {
+      return;
+    }
+    this.runningTasks.delete(task);
+    running.controller.abort();
+
+    if (running.cleanup) {
+      const cleanupIndex = this.activeCleanups.indexOf(running.cleanup);
+      if (cleanupIndex !== -1) {
+        this.activeCleanups.splice(cleanupIndex, 1);
+      }
+      this.invokeCleanup(running.cleanup);
     }
   }
 
@@ -647,34 +3851,96 @@ export class TabChief {
    * Runs all registered exclusive tasks
    */
   private runAllTasks(): void {
-    for (const task of this.exclusiveTasks) {
+    // Failures are counted per leadership
+    for (const supervised of this.supervisedTasks.values()) {
+      supervised.failures = 0;
+    }
+    for (const task of [...this.exclusiveTasks]) {
+      // A failing task may have made this tab abdicate
+      if (this.state !== TabState.CHIEF) {
+        break;
+      }
       this.runTask(task);
     }
   }
 
   /**
-   * Runs all cleanup functions
+   * Aborts running tasks and runs all cleanup functions
+   *
+   * @returns Promise settling once async cleanups finish (or time out),
+   * or null if every cleanup completed synchronously
    */
-  private runCleanups(): void {
+  private runCleanups(): Promise<void> | null {
+    if (this.taskController) {
+      this.taskController.abort();
+      this.taskController = null;
+    }
+    this.runningTasks.clear();
+    for (const supervised of this.supervisedTasks.values()) {
+      this.resetSupervision(supervised);
+    }
+
+    const pending: Promise<void>[] = [];
     for (const cleanup of this.activeCleanups) {
-      try {
-        cleanup();
-      } catch (error) {
-        console.error('[TabChief] Error running cleanup:', error);
+      const result = this.invokeCleanup(cleanup);
+      if (result) {
+        pending.push(result);
       }
     }
     this.activeCleanups = [];
+
+    if (pending.length === 0) {
+      return null;
+    }
+
+    return new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        this.log('Timed out waiting for async cleanups', { timeout: this.cleanupTimeout });
+        resolve();
+      }, this.cleanupTimeout);
+
+      Promise.all(pending).then(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Runs a single cleanup function, logging (never throwing) its errors
+   *
+   * @returns Promise for async cleanups, undefined otherwise
+   */
+  private invokeCleanup(cleanup: CleanupFunction): Promise<void> | undefined {
+    try {
+      const result = cleanup();
+      if (isPromiseLike(result)) {
+        return Promise.resolve(result).catch((error: unknown) => {
+          this.reportError('Error running cleanup', error, 'cleanup');
+        });
+      }
+    } catch (error) {
+      this.reportError('Error running cleanup', error, 'cleanup');
+    }
+    return undefined;
   }
 
   /**
    * Notifies all message callbacks
    */
-  private notifyMessageCallbacks<T>(data: T): void {
-    for (const callback of this.messageCallbacks) {
+  private notifyMessageCallbacks(message: DataMessage, replayed: boolean): void {
+    const callbacks =
+      message.topic === undefined ? this.messageCallbacks : this.topicCallbacks.get(message.topic);
+    if (!callbacks) {
+      return;
+    }
+
+    const info: MessageInfo = { replayed, timestamp: message.timestamp };
+    for (const callback of [...callbacks]) {
       try {
-        callback(data);
+        callback(message.payload, info, message.senderId);
       } catch (error) {
-        console.error('[TabChief] Error in message callback:', error);
+        this.reportError('Error in message callback', error, 'callback');
       }
     }
   }
@@ -692,6 +3958,15 @@ export class TabChief {
 
     this.state = newState;
 
+    if (newState === TabState.CHIEF) {
+      this.tenureStartedAt = Date.now();
+    } else if (oldState === TabState.CHIEF && this.tenureStartedAt !== null) {
+      const tenure = Date.now() - this.tenureStartedAt;
+      this.tenureStartedAt = null;
+      pushHistory(this.stats.tenures, tenure);
+      this.recordMetric('leadership.tenure', tenure);
+    }
+
     // Notify state change callbacks
     this.notifyStateChangeCallbacks(newState, oldState);
 
@@ -705,15 +3980,144 @@ export class TabChief {
     }
   }
 
+  /**
+   * Counts an election unless one is already pending
+   */
+  private markElectionStarted(): void {
+    if (this.electionStartedAt !== null) {
+      return;
+    }
+
+    this.electionStartedAt = Date.now();
+    this.stats.electionsStarted += 1;
+    this.recordMetric('election.started', 1);
+  }
+
+  /**
+   * Records the outcome and settle time of the pending election, if any
+   */
+  private markElectionSettled(won: boolean): void {
+    if (this.electionStartedAt === null) {
+      return;
+    }
+
+    const settleTime = Date.now() - this.electionStartedAt;
+    this.electionStartedAt = null;
+    if (won) {
+      this.stats.electionsWon += 1;
+    } else {
+      this.stats.electionsLost += 1;
+    }
+    pushHistory(this.stats.settleTimes, settleTime);
+    this.recordMetric(won ? 'election.won' : 'election.lost', settleTime);
+  }
+
+  /**
+   * Notifies all metric callbacks of a measurement
+   */
+  private recordMetric(name: MetricName, value: number): void {
+    if (this.metricCallbacks.length === 0) {
+      return;
+    }
+
+    const metric = { name, value, tabId: this.tabId, term: this.currentTerm, timestamp: Date.now() };
+    for (const callback of [...this.metricCallbacks]) {
+      try {
+        callback(metric);
+      } catch (error) {
+        this.reportError('Error in metric callback', error, 'callback');
+      }
+    }
+  }
+
+  /**
+   * Notifies all error callbacks
+   */
+  private notifyErrorCallbacks(error: unknown, context: ErrorContext): void {
+    for (const callback of [...this.errorCallbacks]) {
+      try {
+        callback(error, context);
+      } catch (callbackError) {
+        // Only logged, reporting it to the error callbacks again could loop
+        this.writeLog('error', 'Error in error callback', { error: callbackError });
+      }
+    }
+  }
+
   /**
    * Notifies all state change callbacks
    */
   private notifyStateChangeCallbacks(newState: TabState, oldState: TabState): void {
-    for (const callback of this.stateChangeCallbacks) {
+    for (const callback of [...this.stateChangeCallbacks]) {
       try {
         callback(newState, oldState);
       } catch (error) {
-        console.error('[TabChief] Error in state change callback:', error);
+        this.reportError('Error in state change callback', error, 'callback');
+      }
+    }
+  }
+
+  /**
+   * Notifies all version mismatch callbacks
+   */
+  private notifyVersionMismatchCallbacks(mismatch: VersionMismatch): void {
+    for (const callback of [...this.versionMismatchCallbacks]) {
+      try {
+        callback(mismatch);
+      } catch (error) {
+        this.reportError('Error in version mismatch callback', error, 'callback');
+      }
+    }
+  }
+
+  /**
+   * Notifies all conflict callbacks
+   */
+  private notifyConflictCallbacks(conflict: ChiefConflict): void {
+    for (const callback of [...this.conflictCallbacks]) {
+      try {
+        callback(conflict);
+      } catch (error) {
+        this.reportError('Error in conflict callback', error, 'callback');
+      }
+    }
+  }
+
+  /**
+   * Notifies all Chief change callbacks
+   */
+  private notifyChiefChangeCallbacks(chiefId: string | null, previousChiefId: string | null): void {
+    for (const callback of [...this.chiefChangeCallbacks]) {
+      try {
+        callback(chiefId, previousChiefId);
+      } catch (error) {
+        this.reportError('Error in Chief change callback', error, 'callback');
+      }
+    }
+  }
+
+  /**
+   * Notifies all tab join callbacks
+   */
+  private notifyTabJoinCallbacks(tab: TabInfo): void {
+    for (const callback of [...this.tabJoinCallbacks]) {
+      try {
+        callback(tab);
+      } catch (error) {
+        this.reportError('Error in tab join callback', error, 'callback');
+      }
+    }
+  }
+
+  /**
+   * Notifies all tab leave callbacks
+   */
+  private notifyTabLeaveCallbacks(tab: TabInfo): void {
+    for (const callback of [...this.tabLeaveCallbacks]) {
+      try {
+        callback(tab);
+      } catch (error) {
+        this.reportError('Error in tab leave callback', error, 'callback');
       }
     }
   }
@@ -722,11 +4126,11 @@ export class TabChief {
    * Notifies all become Chief callbacks
    */
   private notifyBecomeChiefCallbacks(): void {
-    for (const callback of this.becomeChiefCallbacks) {
+    for (const callback of [...this.becomeChiefCallbacks]) {
       try {
         callback();
       } catch (error) {
-        console.error('[TabChief] Error in become Chief callback:', error);
+        this.reportError('Error in become Chief callback', error, 'callback');
       }
     }
   }
@@ -735,11 +4139,11 @@ export class TabChief {
    * Notifies all become Follower callbacks
    */
   private notifyBecomeFollowerCallbacks(): void {
-    for (const callback of this.becomeFollowerCallbacks) {
+    for (const callback of [...this.becomeFollowerCallbacks]) {
       try {
         callback();
       } catch (error) {
-        console.error('[TabChief] Error in become Follower callback:', error);
+        this.reportError('Error in become Follower callback', error, 'callback');
       }
     }
   }
@@ -748,16 +4152,142 @@ export class TabChief {
    * Logs debug messages if debug mode is enabled
    */
   private log(message: string, data?: Record<string, unknown>): void {
-    if (!this.debug) {
+    this.writeLog('debug', message, data);
+  }
+
+  /**
+   * Logs a notable event such as a leadership change (only when debug is enabled)
+   */
+  private info(message: string, data?: Record<string, unknown>): void {
+    this.writeLog('info', message, data);
+  }
+
+  /**
+   * Logs a recoverable problem
+   */
+  private warn(message: string, data?: Record<string, unknown>): void {
+    this.writeLog('warn', message, data);
+  }
+
+  /**
+   * Logs an error thrown by user code or a browser API and notifies error callbacks
+   */
+  private reportError(
+    message: string,
+    error: unknown,
+    source: ErrorSource,
+    details?: Pick<ErrorContext, 'task' | 'failures' | 'willRetry'>
+  ): void {
+    this.writeLog('error', message, { ...details, error });
+
+    const context: ErrorContext = {
+      source,
+      message,
+      tabId: this.tabId,
+      term: this.currentTerm,
+      ...details,
+    };
+    if (this.roleElection) {
+      context.role = this.roleElection.role;
+    }
+    this.notifyErrorCallbacks(error, context);
+  }
+
+  /**
+   * Passes a log entry with the tab's structured fields to the logger
+   */
+  private writeLog(level: LogLevel, message: string, data?: Record<string, unknown>): void {
+    // A custom logger receives every entry and applies its own level
+    if (!this.debug && this.logger === consoleLogger && (level === 'debug' || level === 'info')) {
       return;
     }
 
-    const prefix = `[TabChief:${this.tabId.slice(0, 8)}]`;
-    if (data) {
-      console.log(prefix, message, data);
-    } else {
-      console.log(prefix, message);
+    const fields: LogFields = { tabId: this.tabId, state: this.state };
+    if (this.roleElection) {
+      fields.role = this.roleElection.role;
+    }
+    this.logger[level](message, { ...fields, ...data });
+  }
+
+  /**
+   * Handles page lifecycle events (bfcache, freeze/resume)
+   */
+  private handleLifecycleEvent(event: Event): void {
+    switch (event.type) {
+      case 'pagehide':
+      case 'freeze':
+        this.suspend(event.type);
+        break;
+
+      case 'pageshow':
+        // Fired on every load; only restorations from the bfcache are persisted
+        if ((event as PageTransitionEvent).persisted) {
+          this.resume(event.type);
+        }
+        break;
+
+      case 'resume':
+        this.resume(event.type);
+        break;
+
+      case 'visibilitychange':
+        // Not every browser fires resume, but a restored page becomes visible
+        if (isDocumentVisible()) {
+          this.resume(event.type);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Leaves the election because the page is frozen or cached.
+   * Timers and messages will not run anymore, so cleanups run right away and
+   * SHUTDOWN is announced without waiting for async cleanups.
+   */
+  private suspend(reason: string): void {
+    if (this.state === TabState.STOPPED || this.state === TabState.IDLE) {
+      return;
+    }
+
+    this.info('Page suspended, stepping down', { reason });
+
+    for (const role of this.roles.values()) {
+      role.runCleanups();
+    }
+    this.runCleanups();
+
+    this.suspended = true;
+    this.stop();
+  }
+
+  /**
+   * Rejoins with a fresh election after the page was restored
+   */
+  private resume(reason: string): void {
+    if (!this.suspended) {
+      return;
+    }
+
+    this.info('Page restored, rejoining with a fresh election', { reason });
+    this.suspended = false;
+    this.start();
+  }
+
+  /**
+   * Removes the page lifecycle listeners
+   */
+  private removeLifecycleListeners(): void {
+    if (!this.boundLifecycleEvent) {
+      return;
+    }
+
+    for (const type of LIFECYCLE_WINDOW_EVENTS) {
+      window.removeEventListener(type, this.boundLifecycleEvent);
+    }
+    for (const type of LIFECYCLE_DOCUMENT_EVENTS) {
+      document.removeEventListener(type, this.boundLifecycleEvent);
     }
+    this.boundLifecycleEvent = null;
   }
 
   /**
@@ -773,7 +4303,26 @@ export class TabChief {
       });
     }
 
+    // Leave the roster
+    if (!this.roleElection) {
+      this.broadcast({
+        type: MessageType.LEAVE,
+        senderId: this.tabId,
+        timestamp: Date.now(),
+      });
+    }
+
     // Run cleanups
     this.runCleanups();
   }
 }
+
+// Libraries reading Symbol.observable (where it is defined) find the same interop method
+const symbolObservable = (Symbol as { observable?: symbol }).observable;
+if (symbolObservable) {
+  Object.defineProperty(TabChief.prototype, symbolObservable, {
+    value: TabChief.prototype['@@observable'],
+    configurable: true,
+    writable: true,
+  });
+}
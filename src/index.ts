@@ -8,16 +8,76 @@
  */
 
 // Re-export the main class
-export { TabChief } from './core';
+export { TabChief, PROTOCOL_VERSION } from './core';
+
+// Re-export built-in transports
+export { BroadcastChannelTransport, StorageTransport } from './transports';
+
+// Re-export built-in checkpoint stores
+export { IndexedDBCheckpointStore, LocalStorageCheckpointStore } from './checkpoints';
+
+// Re-export the default logger
+export { consoleLogger } from './logger';
+
+// Re-export shared state
+export { SharedState } from './shared-state';
 
 // Re-export types for consumers
 export type {
   TabChiefOptions,
+  CoordinatorOptions,
+  ElectionMode,
+  TimerSource,
+  LogLevel,
+  LogFields,
+  Logger,
+  RoleBalancing,
   CleanupFunction,
   ExclusiveTask,
+  TaskOptions,
+  TaskStatus,
+  TaskHealth,
+  ErrorSource,
+  ErrorContext,
+  ErrorCallback,
   MessageCallback,
+  EventMap,
+  MessageInfo,
+  ReplayOptions,
+  RequestHandler,
+  RequestOptions,
+  WaitOptions,
+  StartOptions,
+  AbdicateOptions,
+  SharedStateListener,
+  SharedStateUpdate,
   StateChangeCallback,
   LeadershipCallback,
+  IteratorOptions,
+  ReceivedMessage,
+  StateObserver,
+  Subscription,
+  ChiefChangeCallback,
+  ChiefConflict,
+  ConflictCallback,
+  MetricName,
+  Metric,
+  MetricCallback,
+  TabChiefStats,
+  VersionPolicy,
+  VersionMismatch,
+  VersionMismatchCallback,
+  TabPresenceCallback,
+  TabInfo,
+  TabMetadata,
+  Transport,
+  TransportFactory,
+  TransportContext,
+  TransportListener,
+  Checkpoint,
+  CheckpointStore,
+  CheckpointStoreFactory,
+  ChannelMessage,
 } from './types';
 
 // Re-export enums
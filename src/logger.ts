@@ -0,0 +1,45 @@
+import { LogFields, Logger, LogLevel } from './types';
+
+/** Console method used for each level */
+const CONSOLE_METHODS: Record<LogLevel, 'log' | 'info' | 'warn' | 'error'> = {
+  debug: 'log',
+  info: 'info',
+  warn: 'warn',
+  error: 'error',
+};
+
+/**
+ * Writes an entry as `[TabChief:<tab id>:<role>] message error { fields }`
+ */
+function writeToConsole(level: LogLevel, message: string, fields: LogFields): void {
+  const { tabId, role, error } = fields;
+  const args: unknown[] = [`[TabChief:${tabId.slice(0, 8)}${role !== undefined ? `:${role}` : ''}]`];
+
+  // The prefix shows the tab and role; the state is only of interest to structured loggers
+  const details: Record<string, unknown> = { ...fields };
+  delete details.tabId;
+  delete details.role;
+  delete details.state;
+  delete details.error;
+
+  if (error !== undefined) {
+    args.push(`${message}:`, error);
+  } else {
+    args.push(message);
+  }
+  if (Object.keys(details).length > 0) {
+    args.push(details);
+  }
+
+  console[CONSOLE_METHODS[level]](...args);
+}
+
+/**
+ * Logger writing to the console (default)
+ */
+export const consoleLogger: Logger = {
+  debug: (message, fields) => writeToConsole('debug', message, fields),
+  info: (message, fields) => writeToConsole('info', message, fields),
+  warn: (message, fields) => writeToConsole('warn', message, fields),
+  error: (message, fields) => writeToConsole('error', message, fields),
+};
@@ -0,0 +1,156 @@
+/**
+ * tab-chief/react
+ *
+ * React bindings: a provider owning the TabChief lifecycle and hooks
+ * subscribing to its state.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  createContext,
+  createElement,
+  DependencyList,
+  ReactElement,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import { TabChief } from './core';
+import { EventMap, ExclusiveTask, MessageCallback, TabChiefOptions, TabState } from './types';
+
+const TabChiefContext = createContext<TabChief | null>(null);
+
+/**
+ * Props of TabChiefProvider
+ */
+export interface TabChiefProviderProps {
+  /** Options for the TabChief created by the provider (read on first render only) */
+  options?: TabChiefOptions;
+  /** Existing instance to provide instead; the caller starts and stops it */
+  chief?: TabChief;
+  children?: ReactNode;
+}
+
+/**
+ * Provides a TabChief to the hooks below it.
+ * Unless an instance is passed, the provider creates one, starts it on mount
+ * and stops it on unmount.
+ */
+export function TabChiefProvider({ options, chief, children }: TabChiefProviderProps): ReactElement {
+  const [ownChief] = useState(() => (chief ? null : new TabChief(options)));
+  const pendingStop = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!ownChief) {
+      return;
+    }
+
+    // StrictMode unmounts and remounts right away; keep running instead of restarting
+    if (pendingStop.current !== null) {
+      clearTimeout(pendingStop.current);
+      pendingStop.current = null;
+    } else {
+      ownChief.start();
+    }
+
+    return () => {
+      pendingStop.current = setTimeout(() => {
+        pendingStop.current = null;
+        ownChief.stop();
+      }, 0);
+    };
+  }, [ownChief]);
+
+  return createElement(TabChiefContext.Provider, { value: chief ?? ownChief }, children);
+}
+
+/**
+ * Returns the TabChief of the nearest TabChiefProvider
+ */
+export function useTabChief<Events extends object = EventMap>(): TabChief<Events> {
+  const chief = useContext(TabChiefContext);
+  if (!chief) {
+    throw new Error('[TabChief] useTabChief() must be used within a TabChiefProvider');
+  }
+  return chief as unknown as TabChief<Events>;
+}
+
+/**
+ * Subscribes to a value derived from the TabChief, re-rendering on state changes
+ */
+function useTabChiefSnapshot<T>(getSnapshot: (chief: TabChief) => T, serverSnapshot: T): T {
+  const chief = useTabChief();
+  const subscribe = useCallback(
+    (onChange: () => void) => chief.onStateChange(onChange),
+    [chief]
+  );
+
+  return useSyncExternalStore(subscribe, () => getSnapshot(chief), () => serverSnapshot);
+}
+
+/**
+ * Returns true while this tab is the Chief
+ */
+export function useIsChief(): boolean {
+  return useTabChiefSnapshot((chief) => chief.isChief, false);
+}
+
+/**
+ * Returns the current state of this tab
+ */
+export function useChiefState(): TabState {
+  return useTabChiefSnapshot((chief) => chief.currentState, TabState.IDLE);
+}
+
+/**
+ * Subscribes to messages sent without a topic.
+ * The latest callback is always used, so it does not need to be memoized.
+ *
+ * @param callback - Function to call when a message is received
+ */
+export function useChiefMessage<T>(callback: MessageCallback<T>): void;
+/**
+ * Subscribes to the messages of a single topic
+ *
+ * @param topic - Topic name
+ * @param callback - Function to call with the topic's payload
+ */
+export function useChiefMessage<T>(topic: string, callback: MessageCallback<T>): void;
+export function useChiefMessage(
+  topicOrCallback: string | MessageCallback<unknown>,
+  topicCallback?: MessageCallback<unknown>
+): void {
+  const chief = useTabChief();
+  const topic = typeof topicOrCallback === 'string' ? topicOrCallback : undefined;
+  const callback = (topicCallback ?? topicOrCallback) as MessageCallback<unknown>;
+
+  const callbackRef = useRef(callback);
+  useEffect(() => {
+    callbackRef.current = callback;
+  });
+
+  useEffect(() => {
+    const listener: MessageCallback<unknown> = (data, info, sender) =>
+      callbackRef.current(data, info, sender);
+
+    return topic === undefined ? chief.onMessage(listener) : chief.onMessage(topic, listener);
+  }, [chief, topic]);
+}
+
+/**
+ * Runs a task while this tab is the Chief, like runExclusive().
+ * The task is unregistered (and its cleanup run) when the deps change or the
+ * component unmounts, then registered again with the new deps.
+ *
+ * @param task - Function to run when becoming Chief, should return cleanup function
+ * @param deps - Dependencies of the task, as for useEffect
+ */
+export function useExclusiveEffect(task: ExclusiveTask, deps: DependencyList): void {
+  const chief = useTabChief();
+  useEffect(() => chief.runExclusive(task), [chief, ...deps]);
+}
@@ -0,0 +1,211 @@
+import { SharedStateListener, SharedStateUpdate, StatePatchOperation } from './types';
+
+/**
+ * Connection between a SharedState and its TabChief instance
+ */
+export interface SharedStateHost {
+  /** Returns true if this tab may currently mutate shared state */
+  isChief(): boolean;
+  /** Broadcasts a patch to the other tabs */
+  publishPatch(key: string, baseVersion: number, version: number, operations: StatePatchOperation[]): void;
+  /** Asks the Chief for a full snapshot of the key */
+  requestSnapshot(key: string): void;
+  /** Logs an error thrown by a listener */
+  reportError(message: string, error: unknown): void;
+}
+
+/**
+ * Returns true for plain (non-array) objects
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Structural equality for JSON-compatible values
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && isEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * Computes the operations turning `previous` into `next`.
+ * Plain objects are diffed per property; everything else is replaced whole.
+ */
+function diff(previous: unknown, next: unknown, path: string[] = []): StatePatchOperation[] {
+  if (isEqual(previous, next)) {
+    return [];
+  }
+
+  if (!isPlainObject(previous) || !isPlainObject(next)) {
+    return [{ path, value: next }];
+  }
+
+  const operations: StatePatchOperation[] = [];
+  for (const key of Object.keys(next)) {
+    if (!Object.prototype.hasOwnProperty.call(previous, key)) {
+      operations.push({ path: [...path, key], value: next[key] });
+    } else {
+      operations.push(...diff(previous[key], next[key], [...path, key]));
+    }
+  }
+  for (const key of Object.keys(previous)) {
+    if (!Object.prototype.hasOwnProperty.call(next, key)) {
+      operations.push({ path: [...path, key], remove: true });
+    }
+  }
+  return operations;
+}
+
+/**
+ * Applies a single operation, copying objects along the path (immutable update)
+ */
+function applyOperation(target: unknown, operation: StatePatchOperation, depth = 0): unknown {
+  if (depth === operation.path.length) {
+    return operation.value;
+  }
+
+  const copy: Record<string, unknown> = isPlainObject(target) ? { ...target } : {};
+  const key = operation.path[depth];
+
+  if (operation.remove && depth === operation.path.length - 1) {
+    delete copy[key];
+  } else {
+    copy[key] = applyOperation(copy[key], operation, depth + 1);
+  }
+  return copy;
+}
+
+/**
+ * State replicated from the Chief to every tab.
+ * Only the Chief may update it; other tabs hold a read-only synchronized copy.
+ */
+export class SharedState<T> {
+  private currentValue: T;
+  private currentVersion = 0;
+  private listeners: SharedStateListener<T>[] = [];
+
+  /**
+   * @internal Created via TabChief.createSharedState()
+   */
+  constructor(
+    public readonly key: string,
+    initialValue: T,
+    private readonly host: SharedStateHost
+  ) {
+    this.currentValue = initialValue;
+  }
+
+  /**
+   * Returns the current value
+   */
+  public get value(): T {
+    return this.currentValue;
+  }
+
+  /**
+   * Returns the version of the current value (incremented on every update)
+   */
+  public get version(): number {
+    return this.currentVersion;
+  }
+
+  /**
+   * Updates the value and broadcasts the changes to all tabs.
+   * Throws if this tab is not the Chief.
+   *
+   * @param update - New value or function deriving it from the current value
+   */
+  public set(update: SharedStateUpdate<T>): void {
+    if (!this.host.isChief()) {
+      throw new Error(`[TabChief] Only the Chief can update shared state "${this.key}"`);
+    }
+
+    const next =
+      typeof update === 'function' ? (update as (previousValue: T) => T)(this.currentValue) : update;
+    const operations = diff(this.currentValue, next);
+    if (operations.length === 0) {
+      return;
+    }
+
+    const baseVersion = this.currentVersion;
+    this.commit(next, baseVersion + 1);
+    this.host.publishPatch(this.key, baseVersion, this.currentVersion, operations);
+  }
+
+  /**
+   * Subscribes to value changes
+   *
+   * @param listener - Function called with the new and previous value
+   * @returns Function that removes the listener
+   */
+  public subscribe(listener: SharedStateListener<T>): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index !== -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * @internal Applies a patch received from the Chief.
+   * Requests a snapshot instead if the patch does not follow the local version.
+   */
+  public applyPatch(baseVersion: number, version: number, operations: StatePatchOperation[]): void {
+    if (version <= this.currentVersion) {
+      return;
+    }
+    if (baseVersion !== this.currentVersion) {
+      this.host.requestSnapshot(this.key);
+      return;
+    }
+
+    let next: unknown = this.currentValue;
+    for (const operation of operations) {
+      next = applyOperation(next, operation);
+    }
+    this.commit(next as T, version);
+  }
+
+  /**
+   * @internal Replaces the local copy with a snapshot from the Chief
+   */
+  public applySnapshot(version: number, value: T): void {
+    if (version === this.currentVersion && isEqual(value, this.currentValue)) {
+      return;
+    }
+    this.commit(value, version);
+  }
+
+  /**
+   * Stores a new value and notifies listeners
+   */
+  private commit(value: T, version: number): void {
+    const previousValue = this.currentValue;
+    this.currentValue = value;
+    this.currentVersion = version;
+
+    for (const listener of [...this.listeners]) {
+      try {
+        listener(value, previousValue);
+      } catch (error) {
+        this.host.reportError('Error in shared state listener', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { ChannelMessage, Transport, TransportContext, TransportListener } from './types';
+
+/** Prefix for localStorage keys used by StorageTransport */
+const STORAGE_KEY_PREFIX = 'tab-chief:';
+
+/** @internal Sent over a coordinator port when the tab disconnects */
+export const PORT_DISCONNECT = 'tab-chief:disconnect';
+
+/**
+ * Transport backed by BroadcastChannel (default)
+ */
+export class BroadcastChannelTransport implements Transport {
+  private readonly channel: BroadcastChannel;
+  private listeners: TransportListener[] = [];
+
+  constructor(channelName: string) {
+    this.channel = new BroadcastChannel(channelName);
+    this.channel.onmessage = (event: MessageEvent<ChannelMessage>) => {
+      for (const listener of [...this.listeners]) {
+        listener(event.data);
+      }
+    };
+  }
+
+  public send(message: ChannelMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  public subscribe(listener: TransportListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index !== -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  public close(): void {
+    this.listeners = [];
+    this.channel.onmessage = null;
+    this.channel.close();
+  }
+}
+
+/**
+ * Transport backed by localStorage and the `storage` event.
+ * Fallback for environments where BroadcastChannel is missing or unreliable.
+ */
+export class StorageTransport implements Transport {
+  private readonly key: string;
+  private listeners: TransportListener[] = [];
+  private sequence = 0;
+  private readonly boundStorage: (event: StorageEvent) => void;
+
+  /**
+   * @param channelName - Channel name passed to the transport factory
+   * @param context - Context passed to the transport factory, receives write errors
+   */
+  constructor(
+    channelName: string,
+    private readonly context: TransportContext
+  ) {
+    this.key = `${STORAGE_KEY_PREFIX}${channelName}`;
+    this.boundStorage = this.handleStorage.bind(this);
+    window.addEventListener('storage', this.boundStorage);
+  }
+
+  public send(message: ChannelMessage): void {
+    // The sequence number guarantees a value change, so every send fires an event
+    const envelope = JSON.stringify({ seq: this.sequence++, message });
+    try {
+      localStorage.setItem(this.key, envelope);
+      localStorage.removeItem(this.key);
+    } catch (error) {
+      this.context.reportError('Error writing to localStorage', error);
+    }
+  }
+
+  public subscribe(listener: TransportListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index !== -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  public close(): void {
+    this.listeners = [];
+    window.removeEventListener('storage', this.boundStorage);
+  }
+
+  /**
+   * Handles storage events written by other tabs
+   */
+  private handleStorage(event: StorageEvent): void {
+    // Ignore unrelated keys and the removal that follows every write
+    if (event.key !== this.key || !event.newValue) {
+      return;
+    }
+
+    let message: ChannelMessage;
+    try {
+      message = (JSON.parse(event.newValue) as { message: ChannelMessage }).message;
+    } catch {
+      return;
+    }
+
+    for (const listener of [...this.listeners]) {
+      listener(message);
+    }
+  }
+}
+
+/**
+ * @internal Transport connecting a tab to the SharedWorker coordinator.
+ * The coordinator relays every message to the other connected tabs.
+ */
+export class SharedWorkerTransport implements Transport {
+  private readonly port: MessagePort;
+  private listeners: TransportListener[] = [];
+
+  constructor(worker: SharedWorker) {
+    this.port = worker.port;
+    this.port.onmessage = (event: MessageEvent<ChannelMessage>) => {
+      for (const listener of [...this.listeners]) {
+        listener(event.data);
+      }
+    };
+  }
+
+  public send(message: ChannelMessage): void {
+    this.port.postMessage(message);
+  }
+
+  public subscribe(listener: TransportListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index !== -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  public close(): void {
+    this.listeners = [];
+    // Ports do not report being closed, so tell the coordinator to drop this one
+    this.port.postMessage(PORT_DISCONNECT);
+    this.port.onmessage = null;
+    this.port.close();
+  }
+}
@@ -8,26 +8,520 @@ export interface TabChiefOptions {
   heartbeatInterval?: number;
   /** Election timeout in milliseconds (default: 3000ms) */
   electionTimeout?: number;
-  /** Enable debug logging to console (default: false) */
+  /**
+   * Where heartbeat and election timers run (default: 'main')
+   * - 'main': main-thread timers, throttled by browsers in background tabs
+   * - 'worker': a dedicated Worker clock; falls back to 'main' if Workers are unavailable
+   */
+  timers?: TimerSource;
+  /**
+   * Let followers adapt their election timeout to the Chief's actual heartbeat
+   * cadence, and let a backgrounded Chief announce slower heartbeats (default: false).
+   * electionTimeout stays the minimum timeout.
+   */
+  adaptiveTimeouts?: boolean;
+  /**
+   * Election priority; higher wins (default: 0).
+   * A function is re-evaluated before each election, and by the Chief for every
+   * heartbeat and election request it receives.
+   * Ties are broken by creation time (earlier wins), then by tab id.
+   */
+  priority?: number | (() => number);
+  /** Enable debug and info entries of the default console logger (default: false) */
   debug?: boolean;
+  /**
+   * Receives log entries with structured fields (default: console logger).
+   * A custom logger receives entries of every level and decides which to keep.
+   */
+  logger?: Logger;
+  /**
+   * Election backend (default: 'bully')
+   * - 'bully': timestamp-based election over BroadcastChannel messages
+   * - 'web-locks': leadership is held via the Web Locks API
+   * - 'auto': Web Locks when available, otherwise the bully election
+   */
+  election?: ElectionMode;
+  /**
+   * Factory creating the transport used to exchange protocol messages
+   * (default: BroadcastChannel transport)
+   */
+  transport?: TransportFactory;
+  /**
+   * Factory creating the store that persists checkpoints
+   * (default: IndexedDB, or localStorage where IndexedDB is unavailable)
+   */
+  checkpoints?: CheckpointStoreFactory;
+  /**
+   * Factory creating the SharedWorker that hosts a TabChiefCoordinator.
+   * When set, the coordinator is the permanent Chief and tabs only follow it;
+   * without SharedWorker support, tabs fall back to electing a Chief (default: unset)
+   */
+  coordinator?: () => SharedWorker;
+  /**
+   * Keep a bounded history of user messages and replay it to tabs that
+   * start later, so they see the last known values (default: disabled)
+   */
+  replay?: ReplayOptions;
+  /**
+   * Maximum time in milliseconds to wait for async cleanups before
+   * stepping down in stop() (default: 3000ms)
+   */
+  cleanupTimeout?: number;
+  /**
+   * How named roles pick their holder (default: 'none')
+   * - 'none': every role prefers the same tab as the main election
+   * - 'spread': each role ranks tabs differently, spreading roles across tabs
+   */
+  roleBalancing?: RoleBalancing;
+  /** Metadata announced to other tabs, e.g. route or visibility (default: {}) */
+  metadata?: TabMetadata;
+  /** Interval in milliseconds at which tabs announce their presence (default: 5000ms) */
+  presenceInterval?: number;
+  /**
+   * Time in milliseconds after which a tab that stopped announcing itself
+   * is removed from the roster (default: 3 × presenceInterval)
+   */
+  presenceTimeout?: number;
+  /**
+   * Prefer visible tabs as Chief (default: false).
+   * Visible tabs win elections over hidden ones, and a Chief that stays hidden
+   * hands leadership to a visible follower.
+   */
+  preferVisible?: boolean;
+  /**
+   * Time in milliseconds the Chief must stay hidden before it hands leadership
+   * to a visible follower, when preferVisible is enabled (default: 5000ms)
+   */
+  visibilityHandoffDelay?: number;
+  /**
+   * Version of the application build, advertised to other tabs
+   * (default: unset, never considered a mismatch)
+   */
+  appVersion?: string;
+  /**
+   * How to treat tabs running a different appVersion (default: 'notify')
+   * - 'notify': keep cooperating, only report via onVersionMismatch
+   * - 'ignore': ignore all messages from those tabs
+   * - 'prefer-newest': the newest appVersion wins elections and takes over from older Chiefs
+   */
+  versionPolicy?: VersionPolicy;
 }
 
+/**
+ * Policy for tabs running a different app version
+ */
+export type VersionPolicy = 'notify' | 'ignore' | 'prefer-newest';
+
+/**
+ * Configuration options for a TabChiefCoordinator.
+ * Use the same channelName and appVersion as the tabs: checkpoints are scoped
+ * to the channelName, and tabs may ignore other versions.
+ */
+export type CoordinatorOptions = Pick<
+  TabChiefOptions,
+  | 'channelName'
+  | 'heartbeatInterval'
+  | 'debug'
+  | 'logger'
+  | 'replay'
+  | 'cleanupTimeout'
+  | 'checkpoints'
+  | 'appVersion'
+>;
+
+/**
+ * Severity of a log entry
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields of a log entry
+ */
+export interface LogFields {
+  /** Id of the logging tab */
+  tabId: string;
+  /** State of the tab when the entry was logged */
+  state: TabState;
+  /** Named role, for entries of a role election */
+  role?: string;
+  /** Type of the protocol message the entry is about */
+  messageType?: MessageType;
+  /** Error of error entries (and warnings caused by one) */
+  error?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * Leveled logger receiving TabChief diagnostics
+ */
+export interface Logger {
+  debug(message: string, fields: LogFields): void;
+  info(message: string, fields: LogFields): void;
+  warn(message: string, fields: LogFields): void;
+  error(message: string, fields: LogFields): void;
+}
+
+/**
+ * Source of heartbeat and election timers
+ */
+export type TimerSource = 'main' | 'worker';
+
+/**
+ * Balancing policy for named roles
+ */
+export type RoleBalancing = 'none' | 'spread';
+
+/**
+ * Options for late-joiner message replay
+ */
+export interface ReplayOptions {
+  /** Maximum number of messages kept in the history (default: 50) */
+  size?: number;
+  /** Maximum age of replayed messages in milliseconds (default: 300000ms) */
+  ttlMs?: number;
+}
+
+/**
+ * Election backend used to pick the Chief
+ */
+export type ElectionMode = 'web-locks' | 'bully' | 'auto';
+
 /**
  * Cleanup function type for the Effect Pattern
  * Called when leadership is lost or the tab closes
  */
-export type CleanupFunction = () => void;
+export type CleanupFunction = () => void | Promise<void>;
 
 /**
  * Task function type for runExclusive
- * Must return a cleanup function or void
+ * Must return a cleanup function or void (optionally via a Promise).
+ * The signal aborts when leadership is lost or stop() is called.
+ * The term identifies this leadership and can be used as a fencing token.
+ */
+export type ExclusiveTask = (
+  signal: AbortSignal,
+  term: number
+) => CleanupFunction | void | Promise<CleanupFunction | void>;
+
+/**
+ * Supervision policy of an exclusive task, passed to runExclusive().
+ * A task fails when it throws or its Promise rejects while this tab is Chief.
+ */
+export interface TaskOptions {
+  /** Name of the task in onError() contexts and getTaskHealth() */
+  name?: string;
+  /** Times a failed task is retried while this tab stays Chief (default: 0) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds, doubled for every further retry (default: 1000ms) */
+  retryDelay?: number;
+  /** Upper bound of the retry delay in milliseconds (default: 30000ms) */
+  maxRetryDelay?: number;
+  /**
+   * Abdicate after this many consecutive failures so another tab can try
+   * (default: never). Failures are counted per leadership, and the task is
+   * retried until the threshold is reached even if `retries` is lower.
+   */
+  abdicateAfter?: number;
+}
+
+/**
+ * Status of an exclusive task
+ * - 'idle': not running, as this tab is not Chief
+ * - 'running': started (or starting) on this Chief
+ * - 'retrying': failed, a retry is scheduled
+ * - 'failed': failed with no retries left
+ */
+export type TaskStatus = 'idle' | 'running' | 'retrying' | 'failed';
+
+/**
+ * Health of an exclusive task, returned by getTaskHealth()
+ */
+export interface TaskHealth {
+  /** Name from the task options */
+  name?: string;
+  status: TaskStatus;
+  /** Consecutive failures during the current (or last) leadership */
+  failures: number;
+  /** Error of the last failure */
+  lastError?: unknown;
+  /** Time of the scheduled retry while retrying */
+  nextRetryAt?: number;
+}
+
+/**
+ * Origin of an error reported via onError()
+ * - 'task': an exclusive task threw or rejected
+ * - 'cleanup': a cleanup function threw or rejected
+ * - 'callback': a callback, listener or priority function threw
+ * - 'lock': the Web Locks request failed
+ * - 'transport': the transport failed to send a message
+ */
+export type ErrorSource = 'task' | 'cleanup' | 'callback' | 'lock' | 'transport' | 'checkpoint';
+
+/**
+ * Context of an error passed to onError() callbacks
+ */
+export interface ErrorContext {
+  source: ErrorSource;
+  /** Description of the failure, e.g. 'Error in message callback' */
+  message: string;
+  /** Id of the tab the error occurred in */
+  tabId: string;
+  /** Election term at the time of the error */
+  term: number;
+  /** Named role, for errors of a role election */
+  role?: string;
+  /** Name of the failed task, if given in its options */
+  task?: string;
+  /** Consecutive failures of the task, including this one */
+  failures?: number;
+  /** True if the task will be retried */
+  willRetry?: boolean;
+}
+
+/**
+ * Error callback function type
+ */
+export type ErrorCallback = (error: unknown, context: ErrorContext) => void;
+
+/**
+ * Additional information about a received message
+ */
+export interface MessageInfo {
+  /** True if the message was sent before this tab started and is being replayed */
+  replayed: boolean;
+  /** Time the message was originally sent */
+  timestamp: number;
+}
+
+/**
+ * User-supplied metadata announced by a tab
+ */
+export type TabMetadata = Record<string, unknown>;
+
+/**
+ * Information about a tab on the channel
+ */
+export interface TabInfo {
+  /** Unique identifier of the tab */
+  id: string;
+  /** Metadata announced by the tab */
+  metadata: TabMetadata;
+  /** True if the tab is the current Chief */
+  isChief: boolean;
+  /** True if this entry describes the current tab */
+  isSelf: boolean;
+  /** Time the tab last announced itself */
+  lastSeen: number;
+}
+
+/**
+ * Roster callback function type
+ * Called when a tab joins or leaves the channel
+ */
+export type TabPresenceCallback = (tab: TabInfo) => void;
+
+/**
+ * Chief change callback function type
+ * Called when the known Chief changes (null while no Chief is known)
+ */
+export type ChiefChangeCallback = (chiefId: string | null, previousChiefId: string | null) => void;
+
+/**
+ * Details of a detected dual-Chief situation
+ */
+export interface ChiefConflict {
+  /** Id of the other tab claiming to be Chief */
+  chiefId: string;
+  /** Term announced by the other tab */
+  term: number;
+  /** Term of this tab's leadership */
+  localTerm: number;
+  /** True if this tab stepped down to resolve the conflict */
+  yielded: boolean;
+}
+
+/**
+ * Details of another tab running a different app version
+ */
+export interface VersionMismatch {
+  /** Id of the other tab */
+  tabId: string;
+  /** App version of the other tab */
+  appVersion: string;
+  /** App version of this tab */
+  localAppVersion: string;
+  /** True if the other tab runs a newer version (this tab is stale) */
+  newer: boolean;
+}
+
+/**
+ * Version mismatch callback function type
+ * Called once per tab running a different appVersion
+ */
+export type VersionMismatchCallback = (mismatch: VersionMismatch) => void;
+
+/**
+ * Conflict callback function type
+ * Called on the Chief when another tab claims leadership at the same time
+ */
+export type ConflictCallback = (conflict: ChiefConflict) => void;
+
+/**
+ * Name of a metric reported via onMetric()
+ * - `election.started`: this tab started an election (value 1)
+ * - `election.won` / `election.lost`: an election settled (value: time to settle in ms)
+ * - `leadership.tenure`: this tab stopped being Chief (value: tenure in ms)
+ * - `heartbeat.jitter`: deviation of a Chief heartbeat from its interval (value in ms)
+ * - `heartbeat.missed`: heartbeats missing between two received ones (value: count)
+ * - `heartbeat.timeout`: the Chief was considered gone (value 1)
+ * - `conflict.yielded` / `conflict.kept`: a conflicting Chief was resolved (value 1)
  */
-export type ExclusiveTask = () => CleanupFunction | void;
+export type MetricName =
+  | 'election.started'
+  | 'election.won'
+  | 'election.lost'
+  | 'leadership.tenure'
+  | 'heartbeat.jitter'
+  | 'heartbeat.missed'
+  | 'heartbeat.timeout'
+  | 'conflict.yielded'
+  | 'conflict.kept';
+
+/**
+ * Single measurement passed to onMetric() callbacks
+ */
+export interface Metric {
+  name: MetricName;
+  /** Duration in milliseconds for timings, count for counters */
+  value: number;
+  /** Id of the measuring tab */
+  tabId: string;
+  /** Election term at the time of the measurement */
+  term: number;
+  /** Time of the measurement */
+  timestamp: number;
+}
+
+/**
+ * Metric callback function type
+ */
+export type MetricCallback = (metric: Metric) => void;
+
+/**
+ * Election and heartbeat statistics returned by getStats().
+ * Counted over the lifetime of the instance, across stop() and start().
+ */
+export interface TabChiefStats {
+  /** Elections this tab started */
+  electionsStarted: number;
+  /** Elections that ended with this tab as Chief */
+  electionsWon: number;
+  /** Elections that ended with another tab as Chief */
+  electionsLost: number;
+  /** Time from starting an election until it settled in ms, for recent elections (oldest first) */
+  settleTimes: number[];
+  /** Durations of this tab's past leaderships in ms, for recent ones (oldest first) */
+  tenures: number[];
+  /** Duration of the current leadership in ms, or null while not Chief */
+  currentTenure: number | null;
+  /** Deviation of received Chief heartbeats from their interval in ms */
+  heartbeatJitter: { samples: number; average: number; max: number };
+  /** Chief heartbeats that did not arrive in time, counted from the gaps between received ones */
+  missedHeartbeats: number;
+  /** Times the Chief was considered gone after its heartbeats stopped */
+  heartbeatTimeouts: number;
+  /** Conflicting Chiefs detected while Chief and resolved by the tie-breaker */
+  conflictsResolved: number;
+  /** Resolved conflicts in which this tab yielded */
+  conflictsYielded: number;
+  /** Messages sent, per type */
+  messagesSent: Partial<Record<MessageType, number>>;
+  /** Messages received from other tabs, per type */
+  messagesReceived: Partial<Record<MessageType, number>>;
+}
+
+/**
+ * Map of message topics to their payload types,
+ * e.g. `{ price: Price; logout: void }`
+ */
+export type EventMap = Record<string, unknown>;
 
 /**
  * Message callback function type
+ * `sender` is the id of the tab that sent the message
+ */
+export type MessageCallback<T> = (data: T, info: MessageInfo, sender: string) => void;
+
+/**
+ * Request handler function type for handle()
+ * Runs on the Chief; the returned value (or resolved Promise) is sent back to the requester
+ */
+export type RequestHandler<P = unknown, R = unknown> = (params: P, senderId: string) => R | Promise<R>;
+
+/**
+ * Options for request()
+ */
+export interface RequestOptions {
+  /** Time to wait for a response in milliseconds (default: 5000ms) */
+  timeout?: number;
+  /**
+   * Re-send the request to the new Chief if leadership changes before
+   * a response arrives, instead of rejecting (default: false)
+   */
+  retry?: boolean;
+}
+
+/**
+ * Options for whenChief(), whenSettled() and waitForState()
+ */
+export interface WaitOptions {
+  /** Rejects the Promise when aborted */
+  signal?: AbortSignal;
+  /** Time to wait in milliseconds before rejecting (default: no timeout) */
+  timeout?: number;
+}
+
+/**
+ * Options for start() returning a Promise of the first election outcome
+ */
+export interface StartOptions extends WaitOptions {
+  /** Resolve with the Chief's id once the election has settled, as whenSettled() does */
+  wait: true;
+}
+
+/**
+ * Options for abdicate()
  */
-export type MessageCallback<T> = (data: T) => void;
+export interface AbdicateOptions {
+  /**
+   * Time in milliseconds during which this tab stays out of elections,
+   * so another tab takes over (default: 5000ms)
+   */
+  cooldown?: number;
+}
+
+/**
+ * Shared state listener function type
+ * Called with the new and previous value whenever a shared state changes
+ */
+export type SharedStateListener<T> = (value: T, previousValue: T) => void;
+
+/**
+ * Shared state updater: a new value or a function deriving it from the current one
+ */
+export type SharedStateUpdate<T> = T | ((previousValue: T) => T);
+
+/**
+ * A single change within a shared state patch.
+ * `path` addresses a nested property; an empty path replaces the whole value.
+ */
+export interface StatePatchOperation {
+  path: string[];
+  value?: unknown;
+  /** True if the property at `path` was removed */
+  remove?: boolean;
+}
 
 /**
  * State change callback function type
@@ -41,6 +535,43 @@ export type StateChangeCallback = (newState: TabState, oldState: TabState) => vo
  */
 export type LeadershipCallback = () => void;
 
+/**
+ * Options for the messages() and states() iterators
+ */
+export interface IteratorOptions {
+  /** Ends the iterator when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Message yielded by messages()
+ */
+export interface ReceivedMessage<T = unknown> {
+  /** Payload of the message */
+  data: T;
+  /** Metadata of the message */
+  info: MessageInfo;
+  /** Id of the sending tab */
+  sender: string;
+}
+
+/**
+ * Observer passed to subscribe(), as defined by the Observable proposal
+ */
+export interface StateObserver {
+  next?(state: TabState): void;
+  error?(error: unknown): void;
+  complete?(): void;
+}
+
+/**
+ * Returned by subscribe(); call it or its unsubscribe() method to stop observing
+ */
+export interface Subscription {
+  (): void;
+  unsubscribe(): void;
+}
+
 /**
  * Internal message types for the election protocol
  */
@@ -57,6 +588,34 @@ export enum MessageType {
   DATA = 'DATA',
   /** Graceful shutdown announcement */
   SHUTDOWN = 'SHUTDOWN',
+  /** Request sent to the Chief */
+  REQUEST = 'REQUEST',
+  /** Response from the Chief to a request */
+  RESPONSE = 'RESPONSE',
+  /** Shared state changes from the Chief */
+  STATE_PATCH = 'STATE_PATCH',
+  /** Request for full shared state snapshots */
+  STATE_SYNC = 'STATE_SYNC',
+  /** Full shared state snapshot from the Chief */
+  STATE_SNAPSHOT = 'STATE_SNAPSHOT',
+  /** Recent user messages replayed to a newly started tab */
+  REPLAY = 'REPLAY',
+  /** Tab presence announcement */
+  PRESENCE = 'PRESENCE',
+  /** Tab leaving the channel */
+  LEAVE = 'LEAVE',
+  /** Chief stepping down in favour of another tab */
+  HANDOFF = 'HANDOFF',
+  /** Chief stepping down while staying on the channel */
+  ABDICATE = 'ABDICATE',
+  /** Chief offering leadership to a specific tab */
+  TRANSFER = 'TRANSFER',
+  /** Tab accepting a leadership transfer */
+  TRANSFER_ACCEPT = 'TRANSFER_ACCEPT',
+  /** Follower asking the Chief for leadership */
+  LEADERSHIP_REQUEST = 'LEADERSHIP_REQUEST',
+  /** Message of a named role's election, wrapped so that 1.0.0 tabs ignore it */
+  ROLE = 'ROLE',
 }
 
 /**
@@ -66,6 +625,10 @@ export interface BaseMessage {
   type: MessageType;
   senderId: string;
   timestamp: number;
+  /** Version of the TabChief protocol spoken by the sender (unset for 1.0.0 tabs) */
+  protocol?: number;
+  /** App version of the sender (see TabChiefOptions.appVersion) */
+  appVersion?: string;
 }
 
 /**
@@ -73,6 +636,14 @@ export interface BaseMessage {
  */
 export interface HeartbeatMessage extends BaseMessage {
   type: MessageType.HEARTBEAT;
+  /** Election term of the sender's leadership */
+  term?: number;
+  /** Election priority of the sender */
+  priority?: number;
+  /** True if the sender's document is visible */
+  visible?: boolean;
+  /** Interval in milliseconds at which the sender expects to send heartbeats */
+  interval?: number;
 }
 
 /**
@@ -80,6 +651,10 @@ export interface HeartbeatMessage extends BaseMessage {
  */
 export interface ElectionMessage extends BaseMessage {
   type: MessageType.ELECTION;
+  /** Election priority of the sender */
+  priority?: number;
+  /** True if the sender's document is visible */
+  visible?: boolean;
 }
 
 /**
@@ -87,6 +662,12 @@ export interface ElectionMessage extends BaseMessage {
  */
 export interface VictoryMessage extends BaseMessage {
   type: MessageType.VICTORY;
+  /** Election term of the sender's leadership */
+  term?: number;
+  /** Election priority of the sender */
+  priority?: number;
+  /** True if the sender's document is visible */
+  visible?: boolean;
 }
 
 /**
@@ -94,6 +675,10 @@ export interface VictoryMessage extends BaseMessage {
  */
 export interface AliveMessage extends BaseMessage {
   type: MessageType.ALIVE;
+  /** Election priority of the sender */
+  priority?: number;
+  /** True if the sender's document is visible */
+  visible?: boolean;
 }
 
 /**
@@ -102,6 +687,10 @@ export interface AliveMessage extends BaseMessage {
 export interface DataMessage<T = unknown> extends BaseMessage {
   type: MessageType.DATA;
   payload: T;
+  /** Tab the message is addressed to (unset for broadcasts) */
+  targetId?: string;
+  /** Topic of the message (unset for messages sent without a topic) */
+  topic?: string;
 }
 
 /**
@@ -111,6 +700,155 @@ export interface ShutdownMessage extends BaseMessage {
   type: MessageType.SHUTDOWN;
 }
 
+/**
+ * Request message sent to the Chief
+ */
+export interface RequestMessage<P = unknown> extends BaseMessage {
+  type: MessageType.REQUEST;
+  /** Correlation ID matching the response to the request */
+  requestId: string;
+  /** Chief the request is addressed to */
+  targetId: string;
+  method: string;
+  params: P;
+}
+
+/**
+ * Response message from the Chief
+ */
+export interface ResponseMessage<R = unknown> extends BaseMessage {
+  type: MessageType.RESPONSE;
+  /** Correlation ID of the originating request */
+  requestId: string;
+  /** Tab that sent the request */
+  targetId: string;
+  result?: R;
+  /** Error message if the handler failed */
+  error?: string;
+}
+
+/**
+ * Shared state patch message from the Chief
+ */
+export interface StatePatchMessage extends BaseMessage {
+  type: MessageType.STATE_PATCH;
+  key: string;
+  /** Version the patch applies to */
+  baseVersion: number;
+  /** Version after applying the patch */
+  version: number;
+  operations: StatePatchOperation[];
+}
+
+/**
+ * Shared state snapshot request message
+ */
+export interface StateSyncMessage extends BaseMessage {
+  type: MessageType.STATE_SYNC;
+  /** Chief the request is addressed to */
+  targetId: string;
+  keys: string[];
+}
+
+/**
+ * Shared state snapshot message from the Chief
+ */
+export interface StateSnapshotMessage extends BaseMessage {
+  type: MessageType.STATE_SNAPSHOT;
+  /** Tab that requested the snapshot */
+  targetId: string;
+  key: string;
+  version: number;
+  value: unknown;
+}
+
+/**
+ * Replay message carrying recent user messages for a newly started tab
+ */
+export interface ReplayMessage extends BaseMessage {
+  type: MessageType.REPLAY;
+  /** Tab the history is replayed to */
+  targetId: string;
+  messages: DataMessage[];
+}
+
+/**
+ * Presence announcement message
+ */
+export interface PresenceMessage extends BaseMessage {
+  type: MessageType.PRESENCE;
+  metadata: TabMetadata;
+  /** True when the tab just started; other tabs answer with their own presence */
+  join: boolean;
+}
+
+/**
+ * Leave announcement message
+ */
+export interface LeaveMessage extends BaseMessage {
+  type: MessageType.LEAVE;
+}
+
+/**
+ * Leadership handoff message from the Chief
+ */
+export interface HandoffMessage extends BaseMessage {
+  type: MessageType.HANDOFF;
+  /** Tab that takes over leadership */
+  targetId: string;
+  /** Election term known to the sender */
+  term?: number;
+}
+
+/**
+ * Abdication announcement from the Chief
+ */
+export interface AbdicateMessage extends BaseMessage {
+  type: MessageType.ABDICATE;
+}
+
+/**
+ * Leadership transfer offer from the Chief
+ */
+export interface TransferMessage extends BaseMessage {
+  type: MessageType.TRANSFER;
+  /** Tab offered leadership */
+  targetId: string;
+  /** Election term known to the sender */
+  term?: number;
+}
+
+/**
+ * Acceptance of a leadership transfer
+ */
+export interface TransferAcceptMessage extends BaseMessage {
+  type: MessageType.TRANSFER_ACCEPT;
+  /** Chief that offered the transfer */
+  targetId: string;
+  /** Election term known to the sender */
+  term?: number;
+}
+
+/**
+ * Leadership request sent to the Chief
+ */
+export interface LeadershipRequestMessage extends BaseMessage {
+  type: MessageType.LEADERSHIP_REQUEST;
+  /** Chief the request is addressed to */
+  targetId: string;
+}
+
+/**
+ * Message of a named role's election
+ */
+export interface RoleMessage extends BaseMessage {
+  type: MessageType.ROLE;
+  /** Role whose election the message belongs to */
+  role: string;
+  /** Message of the role's election */
+  message: ChannelMessage;
+}
+
 /**
  * Union type for all possible messages
  */
@@ -120,7 +858,21 @@ export type ChannelMessage<T = unknown> =
   | VictoryMessage
   | AliveMessage
   | DataMessage<T>
-  | ShutdownMessage;
+  | ShutdownMessage
+  | RequestMessage
+  | ResponseMessage
+  | StatePatchMessage
+  | StateSyncMessage
+  | StateSnapshotMessage
+  | ReplayMessage
+  | PresenceMessage
+  | LeaveMessage
+  | HandoffMessage
+  | AbdicateMessage
+  | TransferMessage
+  | TransferAcceptMessage
+  | LeadershipRequestMessage
+  | RoleMessage;
 
 /**
  * Tab state enumeration
@@ -137,3 +889,76 @@ export enum TabState {
   /** Tab has been stopped */
   STOPPED = 'STOPPED',
 }
+
+/**
+ * Listener receiving messages from a transport
+ */
+export type TransportListener = (message: ChannelMessage) => void;
+
+/**
+ * Messaging medium shared by all tabs on the same channel.
+ * Messages must be delivered to every other tab, but not back to the sender.
+ */
+export interface Transport {
+  /** Sends a message to all other tabs */
+  send(message: ChannelMessage): void;
+  /** Subscribes to incoming messages, returns an unsubscribe function */
+  subscribe(listener: TransportListener): () => void;
+  /** Releases the underlying resources */
+  close(): void;
+}
+
+/**
+ * Services of the TabChief creating a transport
+ */
+export interface TransportContext {
+  /** Reports an error of the transport through the TabChief's logger and onError() */
+  reportError(message: string, error: unknown): void;
+}
+
+/**
+ * Creates a transport for the given channel name.
+ * Called on every start(), since stop() closes the transport.
+ */
+export type TransportFactory = (channelName: string, context: TransportContext) => Transport;
+
+/**
+ * Progress marker persisted by a Chief for the Chiefs after it
+ */
+export interface Checkpoint<T = unknown> {
+  /** Key the checkpoint was written under */
+  key: string;
+  /** Value passed to checkpoint() */
+  value: T;
+  /** Id of the Chief that wrote the checkpoint */
+  tabId: string;
+  /** Election term of the writing Chief */
+  term: number;
+  /** Time the checkpoint was written */
+  timestamp: number;
+}
+
+/**
+ * Durable storage for the checkpoints of one channel
+ */
+export interface CheckpointStore {
+  /** Returns the checkpoint stored under the key, or null if there is none */
+  read(key: string): Promise<Checkpoint | null>;
+  /**
+   * Records the term of a new Chief for the whole channel, unless a later term
+   * was recorded at or after `leaderSince`, the time the Chief took over
+   */
+  claimTerm(term: number, leaderSince: number): Promise<void>;
+  /**
+   * Stores a checkpoint, replacing the previous one of the same key.
+   * Must reject if the channel's recorded term or the stored checkpoint has a later
+   * term and was written at or after `leaderSince`, the time the writing tab became
+   * Chief, and if `isLeader` returns false right before the checkpoint is stored.
+   */
+  write(checkpoint: Checkpoint, leaderSince: number, isLeader: () => boolean): Promise<void>;
+}
+
+/**
+ * Creates a checkpoint store for the given channel name
+ */
+export type CheckpointStoreFactory = (channelName: string) => CheckpointStore;
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, createElement, StrictMode, useState } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { TabChief, TabState } from '../src/index';
+import {
+  TabChiefProvider,
+  useChiefMessage,
+  useChiefState,
+  useExclusiveEffect,
+  useIsChief,
+  useTabChief,
+} from '../src/react';
+import type { Transport } from '../src/index';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+// A channel without other tabs, so the only tab becomes Chief
+const options = {
+  electionTimeout: 500,
+  heartbeatInterval: 100,
+  transport: (): Transport => ({
+    send: () => {},
+    subscribe: () => () => {},
+    close: () => {},
+  }),
+};
+
+describe('tab-chief/react', () => {
+  let container: HTMLElement;
+  let root: Root;
+
+  const render = (element: Parameters<Root['render']>[0]) => act(() => root.render(element));
+  const advance = (ms: number) => act(() => vi.advanceTimersByTimeAsync(ms));
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    container = document.createElement('div');
+    root = createRoot(container);
+  });
+
+  afterEach(async () => {
+    await act(() => root.unmount());
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should start the TabChief and re-render on state changes', async () => {
+    let chief: TabChief | null = null;
+    const Status = () => {
+      chief = useTabChief();
+      return `${useChiefState()}:${useIsChief()}`;
+    };
+
+    await render(createElement(TabChiefProvider, { options }, createElement(Status)));
+    expect(container.textContent).toBe(`${TabState.ELECTING}:false`);
+
+    await advance(600);
+    expect(container.textContent).toBe(`${TabState.CHIEF}:true`);
+
+    await act(() => root.unmount());
+    await advance(10);
+    expect(chief!.currentState).toBe(TabState.STOPPED);
+    root = createRoot(container);
+  });
+
+  it('should start only once under StrictMode', async () => {
+    const start = vi.spyOn(TabChief.prototype, 'start');
+    const stop = vi.spyOn(TabChief.prototype, 'stop');
+
+    await render(createElement(StrictMode, null, createElement(TabChiefProvider, { options })));
+    await advance(10);
+
+    expect(start).toHaveBeenCalledTimes(1);
+    expect(stop).not.toHaveBeenCalled();
+  });
+
+  it('should map useExclusiveEffect onto runExclusive cleanups', async () => {
+    const cleanup = vi.fn();
+    const task = vi.fn((_dep: number) => cleanup);
+    let setDep: (dep: number) => void = () => {};
+
+    const Task = () => {
+      const [dep, setState] = useState(0);
+      setDep = setState;
+      useExclusiveEffect(() => task(dep), [dep]);
+      return null;
+    };
+
+    await render(createElement(TabChiefProvider, { options }, createElement(Task)));
+    await advance(600);
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(task).toHaveBeenLastCalledWith(0);
+
+    await act(() => setDep(1));
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(task).toHaveBeenLastCalledWith(1);
+
+    await render(createElement(TabChiefProvider, { options }));
+    expect(cleanup).toHaveBeenCalledTimes(2);
+  });
+
+  it('should deliver messages to the latest useChiefMessage callback', async () => {
+    let chief: TabChief | null = null;
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const Listener = ({ callback }: { callback: (data: unknown) => void }) => {
+      chief = useTabChief();
+      useChiefMessage(callback);
+      return null;
+    };
+
+    await render(
+      createElement(TabChiefProvider, { options }, createElement(Listener, { callback: first }))
+    );
+    await render(
+      createElement(TabChiefProvider, { options }, createElement(Listener, { callback: second }))
+    );
+    await act(() => chief!.postMessage('hello'));
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith('hello', expect.anything(), chief!.id);
+  });
+});
@@ -1,5 +1,14 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { TabChief, TabState } from '../src/index';
+import {
+  TabChief,
+  TabState,
+  MessageType,
+  StorageTransport,
+  LocalStorageCheckpointStore,
+  PROTOCOL_VERSION,
+} from '../src/index';
+import { TabChiefCoordinator } from '../src/coordinator';
+import type { ChannelMessage, CheckpointStore, Transport } from '../src/index';
 
 // Mock BroadcastChannel
 class MockBroadcastChannel {
@@ -43,6 +52,141 @@ class MockBroadcastChannel {
   }
 }
 
+// Mock Worker running the clock protocol on the (fake) main-thread timers
+class MockWorker {
+  static instances: MockWorker[] = [];
+
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  received: Array<{ op: string; id: number; delay?: number }> = [];
+  terminated = false;
+  private timers: Map<number, { handle: ReturnType<typeof setTimeout>; repeat: boolean }> =
+    new Map();
+
+  constructor(public url: string) {
+    MockWorker.instances.push(this);
+  }
+
+  postMessage(data: { op: string; id: number; delay?: number }): void {
+    this.received.push(data);
+    const { op, id, delay } = data;
+    if (op === 'clear') {
+      this.clear(id);
+      return;
+    }
+
+    const fire = () => this.onmessage?.(new MessageEvent('message', { data: id }));
+    const repeat = op === 'interval';
+    const handle = repeat
+      ? setInterval(fire, delay)
+      : setTimeout(() => {
+          this.timers.delete(id);
+          fire();
+        }, delay);
+    this.timers.set(id, { handle, repeat });
+  }
+
+  terminate(): void {
+    this.terminated = true;
+    for (const id of [...this.timers.keys()]) {
+      this.clear(id);
+    }
+  }
+
+  private clear(id: number): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      if (timer.repeat) {
+        clearInterval(timer.handle);
+      } else {
+        clearTimeout(timer.handle);
+      }
+      this.timers.delete(id);
+    }
+  }
+}
+
+// Mock MessagePort pair with async delivery
+class MockMessagePort {
+  other!: MockMessagePort;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  closed = false;
+
+  postMessage(data: unknown): void {
+    setTimeout(() => {
+      if (!this.other.closed) {
+        this.other.onmessage?.(new MessageEvent('message', { data }));
+      }
+    }, 0);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  static pair(): [MockMessagePort, MockMessagePort] {
+    const port1 = new MockMessagePort();
+    const port2 = new MockMessagePort();
+    port1.other = port2;
+    port2.other = port1;
+    return [port1, port2];
+  }
+}
+
+// Mock SharedWorker connecting each instance to the test's coordinator
+class MockSharedWorker extends EventTarget {
+  static coordinator: TabChiefCoordinator | null = null;
+
+  port: MockMessagePort;
+
+  constructor() {
+    super();
+    const [port, workerPort] = MockMessagePort.pair();
+    this.port = port;
+    MockSharedWorker.coordinator?.connect(workerPort as unknown as MessagePort);
+  }
+}
+
+// Mock LockManager (exclusive locks only)
+class MockLockManager {
+  private held: Set<string> = new Set();
+  private queues: Map<string, Array<() => void>> = new Map();
+
+  request(
+    name: string,
+    options: { signal?: AbortSignal },
+    callback: () => Promise<unknown> | unknown
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const grant = () => {
+        this.held.add(name);
+        Promise.resolve(callback())
+          .then(resolve, reject)
+          .finally(() => {
+            this.held.delete(name);
+            this.queues.get(name)?.shift()?.();
+          });
+      };
+
+      if (!this.held.has(name)) {
+        grant();
+        return;
+      }
+
+      const queue = this.queues.get(name) ?? [];
+      this.queues.set(name, queue);
+      queue.push(grant);
+
+      options.signal?.addEventListener('abort', () => {
+        const index = queue.indexOf(grant);
+        if (index !== -1) {
+          queue.splice(index, 1);
+          reject(new DOMException('Aborted', 'AbortError'));
+        }
+      });
+    });
+  }
+}
+
 // Setup global mocks
 vi.stubGlobal('BroadcastChannel', MockBroadcastChannel);
 
@@ -172,6 +316,29 @@ describe('TabChief', () => {
       expect(task).toHaveBeenCalled();
       expect(() => chief.stop()).not.toThrow();
     });
+
+    it('should abort and clean up a task unregistered via the returned function', () => {
+      const cleanup = vi.fn();
+      let taskSignal: AbortSignal | null = null;
+      const other = vi.fn();
+
+      const chief = new TabChief({ electionTimeout: 1000 });
+      const unregister = chief.runExclusive((signal) => {
+        taskSignal = signal;
+        return cleanup;
+      });
+      chief.runExclusive(other);
+      chief.start();
+      vi.advanceTimersByTime(1100);
+
+      unregister();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+      expect(taskSignal!.aborted).toBe(true);
+
+      chief.stop();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+      expect(other).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('postMessage() and onMessage()', () => {
@@ -185,7 +352,11 @@ describe('TabChief', () => {
 
       chief.postMessage({ test: 'data' });
 
-      expect(callback).toHaveBeenCalledWith({ test: 'data' });
+      expect(callback).toHaveBeenCalledWith(
+        { test: 'data' },
+        expect.objectContaining({ replayed: false }),
+        chief.id
+      );
       chief.stop();
     });
 
@@ -300,4 +471,2366 @@ describe('TabChief', () => {
       expect(uniqueIds.size).toBe(10);
     });
   });
+
+  describe('Web Locks election', () => {
+    beforeEach(() => {
+      Object.defineProperty(navigator, 'locks', {
+        value: new MockLockManager(),
+        configurable: true,
+      });
+    });
+
+    afterEach(() => {
+      delete (navigator as unknown as Record<string, unknown>).locks;
+    });
+
+    it('should become Chief as soon as the lock is granted', async () => {
+      const chief = new TabChief({ channelName: 'test-locks', election: 'web-locks' });
+      const task = vi.fn();
+      chief.runExclusive(task);
+      chief.start();
+
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(chief.isChief).toBe(true);
+      expect(task).toHaveBeenCalledTimes(1);
+      chief.stop();
+    });
+
+    it('should hand over leadership instantly when the holder stops', async () => {
+      const options = { channelName: 'test-locks-failover', election: 'web-locks' as const };
+      const chief1 = new TabChief(options);
+      const chief2 = new TabChief(options);
+
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(0);
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(chief1.isChief).toBe(true);
+      expect(chief2.currentState).toBe(TabState.FOLLOWER);
+
+      chief1.stop();
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(chief2.isChief).toBe(true);
+      chief2.stop();
+    });
+
+    it('should throw when Web Locks are required but unavailable', () => {
+      delete (navigator as unknown as Record<string, unknown>).locks;
+      const chief = new TabChief({ election: 'web-locks' });
+      expect(() => chief.start()).toThrow();
+    });
+
+    it('should fall back to the bully election in auto mode', () => {
+      delete (navigator as unknown as Record<string, unknown>).locks;
+      const chief = new TabChief({ election: 'auto', electionTimeout: 1000 });
+      chief.start();
+
+      expect(chief.isChief).toBe(false);
+      vi.advanceTimersByTime(1100);
+
+      expect(chief.isChief).toBe(true);
+      chief.stop();
+    });
+  });
+
+  describe('Transports', () => {
+    it('should use a custom transport factory', async () => {
+      const sent: ChannelMessage[] = [];
+      const close = vi.fn();
+      const transport: Transport = {
+        send: (message) => sent.push(message),
+        subscribe: () => () => {},
+        close,
+      };
+      const factory = vi.fn(() => transport);
+
+      const chief = new TabChief({ channelName: 'custom', transport: factory });
+      chief.start();
+
+      expect(factory).toHaveBeenCalledWith('custom', expect.anything());
+      expect(sent[0].type).toBe(MessageType.ELECTION);
+
+      chief.stop();
+      expect(close).toHaveBeenCalledTimes(1);
+    });
+
+    it('should write messages to localStorage and read them from storage events', () => {
+      const transport = new StorageTransport('storage-test', { reportError: vi.fn() });
+      const listener = vi.fn();
+      transport.subscribe(listener);
+
+      const setItem = vi.spyOn(Storage.prototype, 'setItem');
+      const message: ChannelMessage = {
+        type: MessageType.HEARTBEAT,
+        senderId: 'other',
+        timestamp: 1,
+      };
+      transport.send(message);
+
+      expect(setItem).toHaveBeenCalledWith('tab-chief:storage-test', expect.any(String));
+      const envelope = setItem.mock.calls[0][1];
+      setItem.mockRestore();
+
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: 'tab-chief:storage-test', newValue: envelope })
+      );
+      window.dispatchEvent(new StorageEvent('storage', { key: 'tab-chief:storage-test', newValue: null }));
+      window.dispatchEvent(new StorageEvent('storage', { key: 'unrelated', newValue: envelope }));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(message);
+
+      transport.close();
+      window.dispatchEvent(
+        new StorageEvent('storage', { key: 'tab-chief:storage-test', newValue: envelope })
+      );
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report localStorage write errors through the logger and onError', async () => {
+      const error = vi.fn();
+      const onError = vi.fn();
+      const quotaError = new Error('QuotaExceededError');
+      const chief = new TabChief({
+        channelName: 'storage-errors',
+        logger: { debug() {}, info() {}, warn() {}, error },
+        transport: (channelName, context) => new StorageTransport(channelName, context),
+      });
+      chief.onError(onError);
+      const setItem = vi.spyOn(localStorage, 'setItem').mockImplementation(() => {
+        throw quotaError;
+      });
+      const consoleError = vi.spyOn(console, 'error');
+
+      chief.start();
+      await vi.advanceTimersByTimeAsync(10);
+      setItem.mockRestore();
+
+      expect(error).toHaveBeenCalledWith(
+        'Error writing to localStorage',
+        expect.objectContaining({ error: quotaError, tabId: chief.id })
+      );
+      expect(onError).toHaveBeenCalledWith(
+        quotaError,
+        expect.objectContaining({ source: 'transport', message: 'Error writing to localStorage' })
+      );
+      expect(consoleError).not.toHaveBeenCalled();
+
+      chief.stop();
+    });
+  });
+
+  describe('request() and handle()', () => {
+    const startPair = async (channelName: string) => {
+      const options = { channelName, electionTimeout: 500, heartbeatInterval: 100 };
+      const chief1 = new TabChief(options);
+      const chief2 = new TabChief(options);
+
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(150);
+
+      return { chief1, chief2 };
+    };
+
+    it('should route a follower request to the Chief handler', async () => {
+      const { chief1, chief2 } = await startPair('test-rpc');
+      const handler = vi.fn((params: { a: number; b: number }) => params.a + params.b);
+      chief1.handle('sum', handler);
+      chief2.handle('sum', handler);
+
+      const result = chief2.request<number>('sum', { a: 1, b: 2 });
+      await vi.advanceTimersByTimeAsync(10);
+
+      await expect(result).resolves.toBe(3);
+      expect(handler).toHaveBeenCalledWith({ a: 1, b: 2 }, chief2.id);
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should handle requests locally on the Chief', async () => {
+      const chief = new TabChief({ electionTimeout: 500 });
+      chief.handle('ping', () => 'pong');
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      await expect(chief.request('ping')).resolves.toBe('pong');
+      chief.stop();
+    });
+
+    it('should reject with the handler error', async () => {
+      const { chief1, chief2 } = await startPair('test-rpc-error');
+      chief1.handle('fail', () => {
+        throw new Error('boom');
+      });
+
+      const result = chief2.request('fail');
+      const assertion = expect(result).rejects.toThrow('boom');
+      await vi.advanceTimersByTimeAsync(10);
+      await assertion;
+
+      const missing = chief2.request('missing');
+      const missingAssertion = expect(missing).rejects.toThrow('No handler registered');
+      await vi.advanceTimersByTimeAsync(10);
+      await missingAssertion;
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should reject on timeout', async () => {
+      const { chief1, chief2 } = await startPair('test-rpc-timeout');
+      chief1.handle('slow', () => new Promise(() => {}));
+
+      const result = chief2.request('slow', undefined, { timeout: 200 });
+      const assertion = expect(result).rejects.toThrow('timed out');
+      await vi.advanceTimersByTimeAsync(250);
+      await assertion;
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should reject when the Chief changes mid-call', async () => {
+      const { chief1, chief2 } = await startPair('test-rpc-shutdown');
+      chief1.handle('slow', () => new Promise(() => {}));
+
+      const result = chief2.request('slow');
+      const assertion = expect(result).rejects.toThrow('Chief changed');
+      await vi.advanceTimersByTimeAsync(10);
+
+      chief1.stop();
+      await vi.advanceTimersByTimeAsync(10);
+      await assertion;
+
+      chief2.stop();
+    });
+
+    it('should retry with the new Chief when retry is enabled', async () => {
+      const { chief1, chief2 } = await startPair('test-rpc-retry');
+      chief1.handle('work', () => new Promise(() => {}));
+      chief2.handle('work', () => 'done by new Chief');
+
+      const result = chief2.request('work', undefined, { retry: true, timeout: 5000 });
+      await vi.advanceTimersByTimeAsync(10);
+
+      chief1.stop();
+      await vi.advanceTimersByTimeAsync(700);
+
+      expect(chief2.isChief).toBe(true);
+      await expect(result).resolves.toBe('done by new Chief');
+
+      chief2.stop();
+    });
+
+    it('should reject pending requests on stop()', async () => {
+      const chief = new TabChief({ electionTimeout: 500 });
+      chief.start();
+
+      const result = chief.request('anything');
+      chief.stop();
+
+      await expect(result).rejects.toThrow('stopped');
+    });
+  });
+
+  describe('createSharedState()', () => {
+    const options = { electionTimeout: 500, heartbeatInterval: 100 };
+
+    it('should replicate Chief updates to followers as patches', async () => {
+      const chief1 = new TabChief({ ...options, channelName: 'test-state' });
+      const chief2 = new TabChief({ ...options, channelName: 'test-state' });
+      const state1 = chief1.createSharedState('session', { user: 'a', count: 0 });
+      const state2 = chief2.createSharedState('session', { user: 'a', count: 0 });
+
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(150);
+
+      const listener = vi.fn();
+      state2.subscribe(listener);
+
+      const sent: unknown[] = [];
+      const channel = [...MockBroadcastChannel.channels.get('test-state')!][0];
+      const postMessage = channel.postMessage.bind(channel);
+      vi.spyOn(channel, 'postMessage').mockImplementation((message) => {
+        sent.push(message);
+        postMessage(message);
+      });
+
+      state1.set((prev) => ({ ...prev, count: 1 }));
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(state2.value).toEqual({ user: 'a', count: 1 });
+      expect(state2.version).toBe(1);
+      expect(listener).toHaveBeenCalledWith({ user: 'a', count: 1 }, { user: 'a', count: 0 });
+      expect(sent).toContainEqual(
+        expect.objectContaining({
+          type: MessageType.STATE_PATCH,
+          operations: [{ path: ['count'], value: 1 }],
+        })
+      );
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should reject updates from followers', async () => {
+      const chief = new TabChief({ ...options });
+      const state = chief.createSharedState('counter', 0);
+      expect(() => state.set(1)).toThrow('Only the Chief');
+    });
+
+    it('should send a full snapshot to a tab that starts late', async () => {
+      const chief1 = new TabChief({ ...options, channelName: 'test-state-late' });
+      const state1 = chief1.createSharedState('items', { list: [] as string[] });
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      state1.set({ list: ['x', 'y'] });
+
+      const chief2 = new TabChief({ ...options, channelName: 'test-state-late' });
+      const state2 = chief2.createSharedState('items', { list: [] as string[] });
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(150);
+
+      expect(state2.value).toEqual({ list: ['x', 'y'] });
+      expect(state2.version).toBe(1);
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should continue from the replicated version after leadership moves', async () => {
+      const chief1 = new TabChief({ ...options, channelName: 'test-state-move' });
+      const chief2 = new TabChief({ ...options, channelName: 'test-state-move' });
+      const state1 = chief1.createSharedState('counter', { value: 0 });
+      const state2 = chief2.createSharedState('counter', { value: 0 });
+
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(150);
+
+      state1.set({ value: 5 });
+      await vi.advanceTimersByTimeAsync(10);
+
+      chief1.stop();
+      await vi.advanceTimersByTimeAsync(700);
+      expect(chief2.isChief).toBe(true);
+
+      state2.set((prev) => ({ value: prev.value + 1 }));
+      expect(state2.value).toEqual({ value: 6 });
+      expect(state2.version).toBe(2);
+
+      chief2.stop();
+    });
+  });
+
+  describe('Message replay', () => {
+    const startLateJoiner = async (channelName: string, replay?: { size?: number; ttlMs?: number }) => {
+      const options = { channelName, electionTimeout: 500, heartbeatInterval: 100, replay };
+      const chief1 = new TabChief(options);
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      chief1.postMessage({ status: 'connecting' });
+      chief1.postMessage({ status: 'connected' });
+      await vi.advanceTimersByTimeAsync(10);
+
+      const chief2 = new TabChief(options);
+      const callback = vi.fn();
+      chief2.onMessage(callback);
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(10);
+
+      return { chief1, chief2, callback };
+    };
+
+    it('should replay recent messages to a newly started tab', async () => {
+      const { chief1, chief2, callback } = await startLateJoiner('test-replay', { size: 1 });
+
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith(
+        { status: 'connected' },
+        expect.objectContaining({ replayed: true }),
+        chief1.id
+      );
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should replay again to a tab that restarts', async () => {
+      const { chief1, chief2, callback } = await startLateJoiner('test-replay-restart', { size: 1 });
+
+      await chief2.stop();
+      await vi.advanceTimersByTimeAsync(10);
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(callback).toHaveBeenLastCalledWith(
+        { status: 'connected' },
+        expect.objectContaining({ replayed: true }),
+        chief1.id
+      );
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should not replay expired messages', async () => {
+      const options = {
+        channelName: 'test-replay-ttl',
+        electionTimeout: 500,
+        replay: { ttlMs: 1000 },
+      };
+      const chief1 = new TabChief(options);
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+      chief1.postMessage('stale');
+      await vi.advanceTimersByTimeAsync(2000);
+
+      const chief2 = new TabChief(options);
+      const callback = vi.fn();
+      chief2.onMessage(callback);
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(callback).not.toHaveBeenCalled();
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should not replay when the option is disabled', async () => {
+      const { chief1, chief2, callback } = await startLateJoiner('test-replay-off');
+
+      expect(callback).not.toHaveBeenCalled();
+
+      chief1.stop();
+      chief2.stop();
+    });
+  });
+
+  describe('Async exclusive tasks', () => {
+    it('should store the cleanup returned by an async task', async () => {
+      const cleanup = vi.fn();
+      const chief = new TabChief({ electionTimeout: 500 });
+      chief.runExclusive(async () => {
+        await Promise.resolve();
+        return cleanup;
+      });
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      expect(cleanup).not.toHaveBeenCalled();
+      await chief.stop();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort the task signal and run a late cleanup immediately', async () => {
+      const cleanup = vi.fn();
+      let taskSignal: AbortSignal | undefined;
+      let finishTask: () => void = () => {};
+
+      const chief = new TabChief({ electionTimeout: 500 });
+      chief.runExclusive((signal) => {
+        taskSignal = signal;
+        return new Promise((resolve) => {
+          finishTask = () => resolve(cleanup);
+        });
+      });
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      expect(taskSignal?.aborted).toBe(false);
+      chief.stop();
+      expect(taskSignal?.aborted).toBe(true);
+      expect(cleanup).not.toHaveBeenCalled();
+
+      finishTask();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should await async cleanups before announcing shutdown', async () => {
+      const options = { channelName: 'test-async-cleanup', electionTimeout: 500, heartbeatInterval: 100 };
+      let finishCleanup: () => void = () => {};
+
+      const chief1 = new TabChief(options);
+      chief1.runExclusive(() => () => new Promise<void>((resolve) => (finishCleanup = resolve)));
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      const chief2 = new TabChief({ ...options, electionTimeout: 5000 });
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(150);
+
+      const stopped = vi.fn();
+      chief1.stop().then(stopped);
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(stopped).not.toHaveBeenCalled();
+      expect(chief2.currentState).toBe(TabState.FOLLOWER);
+
+      finishCleanup();
+      await vi.advanceTimersByTimeAsync(10);
+      expect(stopped).toHaveBeenCalled();
+      expect(chief2.currentState).toBe(TabState.ELECTING);
+
+      chief2.stop();
+    });
+
+    it('should stop waiting for async cleanups after the cleanup timeout', async () => {
+      const chief = new TabChief({ electionTimeout: 500, cleanupTimeout: 1000 });
+      chief.runExclusive(() => () => new Promise<void>(() => {}));
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      const stopped = vi.fn();
+      chief.stop().then(stopped);
+      await vi.advanceTimersByTimeAsync(900);
+      expect(stopped).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(200);
+      expect(stopped).toHaveBeenCalled();
+    });
+  });
+
+  describe('Named roles', () => {
+    const options = { electionTimeout: 500, heartbeatInterval: 100 };
+
+    it('should run a role task only on the role holder', async () => {
+      const chief1 = new TabChief({ ...options, channelName: 'test-roles' });
+      const chief2 = new TabChief({ ...options, channelName: 'test-roles' });
+      const audio1 = vi.fn();
+      const audio2 = vi.fn();
+      chief1.runExclusive('audio', audio1);
+      chief2.runExclusive('audio', audio2);
+
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      expect(chief1.isChiefOf('audio')).toBe(true);
+      expect(chief1.heldRoles).toEqual(['audio']);
+      expect(chief2.isChiefOf('audio')).toBe(false);
+      expect(chief2.getRoleState('audio')).toBe(TabState.FOLLOWER);
+      expect(audio1).toHaveBeenCalledTimes(1);
+      expect(audio2).not.toHaveBeenCalled();
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should elect roles independently of the main election', async () => {
+      const chief = new TabChief({ ...options, channelName: 'test-roles-independent' });
+      const onRoleChief = vi.fn();
+      const onRoleState = vi.fn();
+      chief.onBecomeChief('sync', onRoleChief);
+      chief.onStateChange('sync', onRoleState);
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      expect(chief.isChief).toBe(true);
+      expect(chief.isChiefOf('sync')).toBe(true);
+      expect(onRoleChief).toHaveBeenCalledTimes(1);
+      expect(onRoleState).toHaveBeenCalledWith(TabState.CHIEF, TabState.ELECTING);
+
+      const cleanup = vi.fn();
+      chief.runExclusive('late', () => cleanup);
+      expect(chief.getRoleState('late')).toBe(TabState.ELECTING);
+      await vi.advanceTimersByTimeAsync(600);
+      expect(chief.isChiefOf('late')).toBe(true);
+
+      chief.stop();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+      expect(chief.getRoleState('late')).toBe(TabState.STOPPED);
+    });
+
+    it('should hand a role over when its holder stops', async () => {
+      const chief1 = new TabChief({ ...options, channelName: 'test-roles-failover' });
+      const chief2 = new TabChief({ ...options, channelName: 'test-roles-failover' });
+      chief1.runExclusive('ws', () => {});
+      chief2.runExclusive('ws', () => {});
+
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(250);
+
+      chief1.stop();
+      await vi.advanceTimersByTimeAsync(700);
+
+      expect(chief2.isChiefOf('ws')).toBe(true);
+      chief2.stop();
+    });
+
+    it('should elect exactly one holder per role with spread balancing', async () => {
+      const spread = { ...options, channelName: 'test-roles-spread', roleBalancing: 'spread' as const };
+      const chief1 = new TabChief(spread);
+      const chief2 = new TabChief(spread);
+      const roles = ['a', 'b', 'c', 'd'];
+      for (const role of roles) {
+        chief1.runExclusive(role, () => {});
+        chief2.runExclusive(role, () => {});
+      }
+
+      chief1.start();
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(1500);
+
+      for (const role of roles) {
+        expect([chief1, chief2].filter((c) => c.isChiefOf(role))).toHaveLength(1);
+      }
+
+      chief1.stop();
+      chief2.stop();
+    });
+  });
+
+  describe('Tab roster', () => {
+    const options = { electionTimeout: 500, heartbeatInterval: 100, presenceInterval: 1000 };
+
+    it('should list other tabs with their metadata', async () => {
+      const chief1 = new TabChief({ ...options, channelName: 'test-roster', metadata: { route: '/a' } });
+      const chief2 = new TabChief({ ...options, channelName: 'test-roster', metadata: { route: '/b' } });
+      const onJoin = vi.fn();
+      chief1.onTabJoin(onJoin);
+
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(onJoin).toHaveBeenCalledWith(expect.objectContaining({ id: chief2.id }));
+      expect(chief2.getTabs()).toEqual([
+        expect.objectContaining({ id: chief2.id, isSelf: true, isChief: false, metadata: { route: '/b' } }),
+        expect.objectContaining({ id: chief1.id, isSelf: false, isChief: true, metadata: { route: '/a' } }),
+      ]);
+      expect(chief2.chiefId).toBe(chief1.id);
+
+      chief2.setMetadata({ route: '/c' });
+      await vi.advanceTimersByTimeAsync(10);
+      expect(chief1.getTabs()[1].metadata).toEqual({ route: '/c' });
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should report tabs leaving on stop()', async () => {
+      const chief1 = new TabChief({ ...options, channelName: 'test-roster-leave' });
+      const chief2 = new TabChief({ ...options, channelName: 'test-roster-leave' });
+      const onLeave = vi.fn();
+      chief1.onTabLeave(onLeave);
+
+      chief1.start();
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(50);
+
+      chief2.stop();
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(onLeave).toHaveBeenCalledWith(expect.objectContaining({ id: chief2.id }));
+      expect(chief1.getTabs()).toHaveLength(1);
+
+      chief1.stop();
+    });
+
+    it('should expire tabs that stop announcing themselves', async () => {
+      const chief1 = new TabChief({ ...options, channelName: 'test-roster-expire' });
+      const chief2 = new TabChief({ ...options, channelName: 'test-roster-expire' });
+      const onLeave = vi.fn();
+      chief1.onTabLeave(onLeave);
+
+      chief1.start();
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(50);
+      expect(chief1.getTabs()).toHaveLength(2);
+
+      // Simulate a crashed tab: it goes silent without sending LEAVE
+      const channel2 = [...MockBroadcastChannel.channels.get('test-roster-expire')!][1];
+      vi.spyOn(channel2, 'postMessage').mockImplementation(() => {});
+
+      await vi.advanceTimersByTimeAsync(4100);
+
+      expect(onLeave).toHaveBeenCalledWith(expect.objectContaining({ id: chief2.id }));
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should notify Chief changes', async () => {
+      const chief = new TabChief({ ...options });
+      const onChiefChange = vi.fn();
+      chief.onChiefChange(onChiefChange);
+
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+      expect(onChiefChange).toHaveBeenCalledWith(chief.id, null);
+
+      chief.stop();
+      expect(onChiefChange).toHaveBeenLastCalledWith(null, chief.id);
+    });
+  });
+
+  describe('Election priority', () => {
+    const options = { electionTimeout: 500, heartbeatInterval: 100 };
+
+    it('should prefer the tab with the higher priority', async () => {
+      const chief1 = new TabChief({ ...options, channelName: 'test-priority' });
+      const chief2 = new TabChief({ ...options, channelName: 'test-priority', priority: 10 });
+
+      chief1.start();
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(700);
+
+      expect(chief1.isChief).toBe(false);
+      expect(chief2.isChief).toBe(true);
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should hand leadership to a higher-priority tab that starts later', async () => {
+      const chief1 = new TabChief({ ...options, channelName: 'test-priority-late' });
+      const chief2 = new TabChief({ ...options, channelName: 'test-priority-late', priority: 10 });
+      const cleanup = vi.fn();
+      chief1.runExclusive(() => cleanup);
+
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+      expect(chief1.isChief).toBe(true);
+
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(700);
+
+      expect(cleanup).toHaveBeenCalledTimes(1);
+      expect(chief1.isChief).toBe(false);
+      expect(chief2.isChief).toBe(true);
+      expect(chief1.chiefId).toBe(chief2.id);
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should re-evaluate a priority function before each election', async () => {
+      let desktop = false;
+      const priority = vi.fn(() => (desktop ? 1 : 0));
+      const chief1 = new TabChief({ ...options, channelName: 'test-priority-fn' });
+      vi.advanceTimersByTime(10);
+      const chief2 = new TabChief({ ...options, channelName: 'test-priority-fn', priority });
+
+      chief1.start();
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(750);
+      expect(chief1.isChief).toBe(true);
+
+      desktop = true;
+      chief1.stop();
+      await vi.advanceTimersByTimeAsync(10);
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(700);
+
+      expect(priority.mock.calls.length).toBeGreaterThan(1);
+      expect(chief2.isChief).toBe(true);
+      expect(chief1.isChief).toBe(false);
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should compare the current priority of the Chief with a later tab', async () => {
+      let holdsMediaRoute = false;
+      const chief1 = new TabChief({
+        ...options,
+        channelName: 'test-priority-refresh',
+        priority: () => (holdsMediaRoute ? 10 : 0),
+      });
+      const chief2 = new TabChief({
+        ...options,
+        channelName: 'test-priority-refresh',
+        priority: 5,
+      });
+      const other = new MockBroadcastChannel('test-priority-refresh');
+      const heartbeats: Array<Record<string, unknown>> = [];
+      other.onmessage = (event) => {
+        if (event.data.type === MessageType.HEARTBEAT) {
+          heartbeats.push(event.data);
+        }
+      };
+
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+      expect(chief1.isChief).toBe(true);
+
+      holdsMediaRoute = true;
+      await vi.advanceTimersByTimeAsync(150);
+      expect(heartbeats.at(-1)).toMatchObject({ senderId: chief1.id, priority: 10 });
+
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(700);
+
+      expect(chief1.isChief).toBe(true);
+      expect(chief2.isChief).toBe(false);
+
+      other.close();
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should fall back to creation time when priorities are equal', async () => {
+      const chief1 = new TabChief({ ...options, channelName: 'test-priority-tie', priority: 5 });
+      vi.advanceTimersByTime(10);
+      const chief2 = new TabChief({ ...options, channelName: 'test-priority-tie', priority: 5 });
+
+      chief2.start();
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(700);
+
+      expect(chief1.isChief).toBe(true);
+      expect(chief2.isChief).toBe(false);
+
+      chief1.stop();
+      chief2.stop();
+    });
+  });
+
+  describe('Visibility-aware leadership', () => {
+    const options = {
+      channelName: 'test-visible',
+      electionTimeout: 500,
+      heartbeatInterval: 100,
+      preferVisible: true,
+      visibilityHandoffDelay: 1000,
+    };
+
+    const setVisibility = (state: DocumentVisibilityState) => {
+      Object.defineProperty(document, 'visibilityState', { value: state, configurable: true });
+      document.dispatchEvent(new Event('visibilitychange'));
+    };
+
+    afterEach(() => {
+      delete (document as { visibilityState?: DocumentVisibilityState }).visibilityState;
+    });
+
+    it('should hand leadership from a hidden Chief to a visible tab after the delay', async () => {
+      const cleanup = vi.fn();
+      const chief = new TabChief(options);
+      chief.runExclusive(() => cleanup);
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+      expect(chief.isChief).toBe(true);
+
+      const received: ChannelMessage[] = [];
+      const other = new MockBroadcastChannel('test-visible');
+      other.onmessage = (event) => received.push(event.data);
+      const claim = () =>
+        other.postMessage({
+          type: MessageType.ELECTION,
+          protocol: PROTOCOL_VERSION,
+          senderId: 'visible-tab',
+          timestamp: Date.now(),
+          visible: true,
+        });
+
+      setVisibility('hidden');
+      claim();
+      await vi.advanceTimersByTimeAsync(10);
+      expect(chief.isChief).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      claim();
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(chief.isChief).toBe(false);
+      expect(chief.chiefId).toBe('visible-tab');
+      expect(cleanup).toHaveBeenCalledTimes(1);
+      expect(received).toContainEqual(
+        expect.objectContaining({ type: MessageType.HANDOFF, targetId: 'visible-tab' })
+      );
+
+      other.close();
+      chief.stop();
+    });
+
+    it('should claim leadership from a Chief that stays hidden', async () => {
+      const task = vi.fn();
+      const chief = new TabChief(options);
+      chief.runExclusive(task);
+
+      const received: ChannelMessage[] = [];
+      const other = new MockBroadcastChannel('test-visible');
+      other.onmessage = (event) => received.push(event.data);
+      const heartbeat = setInterval(() => {
+        other.postMessage({
+          type: MessageType.HEARTBEAT,
+          protocol: PROTOCOL_VERSION,
+          senderId: 'hidden-tab',
+          timestamp: Date.now(),
+          visible: false,
+        });
+      }, 100);
+
+      chief.start();
+      await vi.advanceTimersByTimeAsync(250);
+      expect(chief.chiefId).toBe('hidden-tab');
+      received.length = 0;
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(received).toContainEqual(
+        expect.objectContaining({ type: MessageType.ELECTION, senderId: chief.id, visible: true })
+      );
+
+      clearInterval(heartbeat);
+      other.postMessage({
+        type: MessageType.HANDOFF,
+        protocol: PROTOCOL_VERSION,
+        senderId: 'hidden-tab',
+        timestamp: Date.now(),
+        targetId: chief.id,
+      });
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(chief.isChief).toBe(true);
+      expect(task).toHaveBeenCalledTimes(1);
+
+      other.close();
+      chief.stop();
+    });
+
+    it('should keep a hidden Chief when the option is disabled', async () => {
+      const chief = new TabChief({ ...options, preferVisible: false });
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      setVisibility('hidden');
+      await vi.advanceTimersByTimeAsync(1100);
+
+      const other = new MockBroadcastChannel('test-visible');
+      other.postMessage({
+        type: MessageType.ELECTION,
+        protocol: PROTOCOL_VERSION,
+        senderId: 'visible-tab',
+        timestamp: Date.now(),
+        visible: true,
+      });
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(chief.isChief).toBe(true);
+
+      other.close();
+      chief.stop();
+    });
+  });
+
+  describe('Manual leadership control', () => {
+    const options = { channelName: 'test-manual', electionTimeout: 500, heartbeatInterval: 100 };
+
+    const startPair = async () => {
+      const chief1 = new TabChief(options);
+      vi.advanceTimersByTime(10);
+      const chief2 = new TabChief(options);
+      chief1.start();
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(750);
+      expect(chief1.isChief).toBe(true);
+      return [chief1, chief2];
+    };
+
+    it('should abdicate to another tab and stay a follower', async () => {
+      const [chief1, chief2] = await startPair();
+      const cleanup = vi.fn();
+      chief1.runExclusive(() => cleanup);
+
+      await chief1.abdicate();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+      expect(chief1.currentState).toBe(TabState.FOLLOWER);
+
+      await vi.advanceTimersByTimeAsync(750);
+      expect(chief2.isChief).toBe(true);
+      expect(chief1.chiefId).toBe(chief2.id);
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should rejoin the election after the cooldown when alone', async () => {
+      const chief = new TabChief(options);
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      await chief.abdicate({ cooldown: 1000 });
+      await vi.advanceTimersByTimeAsync(900);
+      expect(chief.isChief).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(700);
+      expect(chief.isChief).toBe(true);
+
+      chief.stop();
+    });
+
+    it('should transfer leadership to a specific tab', async () => {
+      const [chief1, chief2] = await startPair();
+      const task = vi.fn();
+      chief2.runExclusive(task);
+
+      const transferred = chief1.transferTo(chief2.id);
+      await vi.advanceTimersByTimeAsync(10);
+
+      await expect(transferred).resolves.toBe(true);
+      expect(chief2.isChief).toBe(true);
+      expect(chief1.isChief).toBe(false);
+      expect(task).toHaveBeenCalledTimes(1);
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should fall back to an election if the target does not accept', async () => {
+      const [chief1, chief2] = await startPair();
+
+      const transferred = chief1.transferTo('missing-tab');
+      await vi.advanceTimersByTimeAsync(500);
+      await expect(transferred).resolves.toBe(false);
+
+      await vi.advanceTimersByTimeAsync(750);
+      expect(chief1.isChief).toBe(false);
+      expect(chief2.isChief).toBe(true);
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should reject transferTo() when not Chief', async () => {
+      const [chief1, chief2] = await startPair();
+      await expect(chief2.transferTo(chief1.id)).rejects.toThrow('Only the Chief');
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should grant leadership requested by a follower', async () => {
+      const [chief1, chief2] = await startPair();
+
+      const granted = chief2.requestLeadership();
+      await vi.advanceTimersByTimeAsync(10);
+
+      await expect(granted).resolves.toBe(true);
+      expect(chief2.isChief).toBe(true);
+      expect(chief1.chiefId).toBe(chief2.id);
+
+      chief1.stop();
+      chief2.stop();
+    });
+  });
+
+  describe('Election terms', () => {
+    const options = { channelName: 'test-terms', electionTimeout: 500, heartbeatInterval: 100 };
+
+    it('should increase the term with every new Chief and pass it to tasks', async () => {
+      const chief1 = new TabChief(options);
+      vi.advanceTimersByTime(10);
+      const chief2 = new TabChief(options);
+      const task = vi.fn();
+      chief1.runExclusive(task);
+      chief2.runExclusive(task);
+
+      chief1.start();
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(750);
+      expect(chief1.term).toBe(1);
+      expect(chief2.term).toBe(1);
+      expect(task).toHaveBeenLastCalledWith(expect.any(AbortSignal), 1);
+
+      chief1.stop();
+      await vi.advanceTimersByTimeAsync(650);
+
+      expect(chief2.isChief).toBe(true);
+      expect(chief2.term).toBe(2);
+      expect(task).toHaveBeenLastCalledWith(expect.any(AbortSignal), 2);
+
+      chief2.stop();
+    });
+
+    it('should ignore heartbeats from a stale term', async () => {
+      const chief = new TabChief(options);
+      const other = new MockBroadcastChannel('test-terms');
+      other.postMessage({
+        type: MessageType.HEARTBEAT,
+        protocol: PROTOCOL_VERSION,
+        senderId: 'current-chief',
+        timestamp: Date.now(),
+        term: 3,
+      });
+      chief.start();
+      await vi.advanceTimersByTimeAsync(10);
+      expect(chief.chiefId).toBe('current-chief');
+
+      other.postMessage({
+        type: MessageType.HEARTBEAT,
+        protocol: PROTOCOL_VERSION,
+        senderId: 'stale-chief',
+        timestamp: Date.now(),
+        term: 2,
+      });
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(chief.chiefId).toBe('current-chief');
+      expect(chief.term).toBe(3);
+
+      other.close();
+      chief.stop();
+    });
+
+    it('should report conflicts and yield to a newer term', async () => {
+      const onConflict = vi.fn();
+      const chief = new TabChief(options);
+      chief.onConflict(onConflict);
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+      expect(chief.term).toBe(1);
+
+      const other = new MockBroadcastChannel('test-terms');
+      other.postMessage({
+        type: MessageType.VICTORY,
+        protocol: PROTOCOL_VERSION,
+        senderId: 'same-term',
+        timestamp: Date.now(),
+        term: 1,
+      });
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(chief.isChief).toBe(true);
+      expect(onConflict).toHaveBeenLastCalledWith({
+        chiefId: 'same-term',
+        term: 1,
+        localTerm: 1,
+        yielded: false,
+      });
+
+      other.postMessage({
+        type: MessageType.HEARTBEAT,
+        protocol: PROTOCOL_VERSION,
+        senderId: 'newer-term',
+        timestamp: Date.now(),
+        term: 2,
+      });
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(chief.isChief).toBe(false);
+      expect(chief.term).toBe(2);
+      expect(onConflict).toHaveBeenLastCalledWith({
+        chiefId: 'newer-term',
+        term: 2,
+        localTerm: 1,
+        yielded: true,
+      });
+
+      other.close();
+      chief.stop();
+    });
+
+    it('should carry the term over when leadership is handed to a new tab', async () => {
+      const chief1 = new TabChief(options);
+      vi.advanceTimersByTime(10);
+      const chief2 = new TabChief(options);
+      chief1.start();
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(750);
+      await chief1.abdicate();
+      await vi.advanceTimersByTimeAsync(750);
+      expect(chief2.isChief).toBe(true);
+      expect(chief2.term).toBe(2);
+
+      const late = new TabChief({ ...options, priority: 10 });
+      late.start();
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(late.isChief).toBe(true);
+      expect(late.term).toBe(3);
+      expect(chief1.chiefId).toBe(late.id);
+      expect(chief2.chiefId).toBe(late.id);
+
+      chief1.stop();
+      chief2.stop();
+      late.stop();
+    });
+  });
+
+  describe('Directed messaging', () => {
+    const options = { channelName: 'test-directed', electionTimeout: 500, heartbeatInterval: 100 };
+
+    it('should deliver sendTo() only to the target tab', async () => {
+      const chief1 = new TabChief(options);
+      const chief2 = new TabChief(options);
+      const chief3 = new TabChief(options);
+      const callback1 = vi.fn();
+      const callback2 = vi.fn();
+      const callback3 = vi.fn();
+      chief1.onMessage(callback1);
+      chief2.onMessage(callback2);
+      chief3.onMessage(callback3);
+
+      chief1.start();
+      chief2.start();
+      chief3.start();
+      await vi.advanceTimersByTimeAsync(10);
+
+      chief1.sendTo(chief2.id, { reply: 'only for you' });
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(callback2).toHaveBeenCalledWith(
+        { reply: 'only for you' },
+        expect.objectContaining({ replayed: false }),
+        chief1.id
+      );
+      expect(callback1).not.toHaveBeenCalled();
+      expect(callback3).not.toHaveBeenCalled();
+
+      chief1.stop();
+      chief2.stop();
+      chief3.stop();
+    });
+
+    it('should queue sendToChief() until a Chief is known', async () => {
+      const chief1 = new TabChief(options);
+      const chief2 = new TabChief(options);
+      const callback1 = vi.fn();
+      const callback2 = vi.fn();
+      chief1.onMessage(callback1);
+      chief2.onMessage(callback2);
+
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      chief2.start();
+      chief2.sendToChief({ report: 'ready' });
+      expect(callback1).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(150);
+
+      expect(callback1).toHaveBeenCalledTimes(1);
+      expect(callback1).toHaveBeenCalledWith(
+        { report: 'ready' },
+        expect.objectContaining({ replayed: false }),
+        chief2.id
+      );
+      expect(callback2).not.toHaveBeenCalled();
+
+      chief1.stop();
+      chief2.stop();
+    });
+  });
+
+  describe('Message topics', () => {
+    type Events = { price: { symbol: string; value: number }; logout: void };
+    const options = { channelName: 'test-topics', electionTimeout: 500, heartbeatInterval: 100 };
+
+    it('should only invoke callbacks of the posted topic', async () => {
+      const chief1 = new TabChief<Events>(options);
+      const chief2 = new TabChief<Events>(options);
+      const onPrice = vi.fn();
+      const onLogout = vi.fn();
+      const untyped = vi.fn();
+      chief2.onMessage('price', onPrice);
+      chief2.onMessage('logout', onLogout);
+      chief2.onMessage(untyped);
+
+      chief1.start();
+      chief2.start();
+      chief1.postMessage('price', { symbol: 'ACME', value: 42 });
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(onPrice).toHaveBeenCalledWith(
+        { symbol: 'ACME', value: 42 },
+        expect.objectContaining({ replayed: false }),
+        chief1.id
+      );
+      expect(onLogout).not.toHaveBeenCalled();
+      expect(untyped).not.toHaveBeenCalled();
+
+      chief1.postMessage({ legacy: true });
+      await vi.advanceTimersByTimeAsync(10);
+      expect(untyped).toHaveBeenCalledWith({ legacy: true }, expect.anything(), chief1.id);
+      expect(onPrice).toHaveBeenCalledTimes(1);
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should keep untyped data apart from topics of the same name', async () => {
+      const chief1 = new TabChief<Events>(options);
+      const chief2 = new TabChief<Events>(options);
+      const onLogout = vi.fn();
+      const untyped = vi.fn();
+      chief2.onMessage('logout', onLogout);
+      chief2.onMessage(untyped);
+
+      chief1.start();
+      chief2.start();
+      chief1.postMessage('logout');
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(untyped).toHaveBeenCalledWith('logout', expect.anything(), chief1.id);
+      expect(onLogout).not.toHaveBeenCalled();
+
+      chief1.postMessage('logout', undefined);
+      await vi.advanceTimersByTimeAsync(10);
+      expect(onLogout).toHaveBeenCalledWith(undefined, expect.anything(), chief1.id);
+      expect(untyped).toHaveBeenCalledTimes(1);
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should remove topic callbacks with offMessage()', async () => {
+      const chief = new TabChief<Events>(options);
+      const onLogout = vi.fn();
+      chief.onMessage('logout', onLogout);
+      chief.start();
+
+      chief.postMessage('logout', undefined);
+      chief.offMessage('logout', onLogout);
+      chief.postMessage('logout', undefined);
+
+      expect(onLogout).toHaveBeenCalledTimes(1);
+
+      chief.stop();
+    });
+  });
+
+  describe('Subscriptions', () => {
+    type Events = { price: number };
+    const options = { channelName: 'test-subscriptions', electionTimeout: 500, heartbeatInterval: 100 };
+
+    it('should return unsubscribe functions from on* methods', () => {
+      const chief = new TabChief<Events>(options);
+      const onPrice = vi.fn();
+      const onStateChange = vi.fn();
+      const removePrice = chief.onMessage('price', onPrice);
+      const removeStateChange = chief.onStateChange(onStateChange);
+
+      removeStateChange();
+      chief.start();
+      chief.postMessage('price', 1);
+      removePrice();
+      chief.postMessage('price', 2);
+
+      expect(onPrice).toHaveBeenCalledTimes(1);
+      expect(onStateChange).not.toHaveBeenCalled();
+
+      chief.stop();
+    });
+
+    it('should iterate over states until stop()', async () => {
+      const chief = new TabChief(options);
+      const states: TabState[] = [];
+      const done = (async () => {
+        for await (const state of chief.states()) {
+          states.push(state);
+        }
+      })();
+
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+      chief.stop();
+      await done;
+
+      expect(states).toEqual([TabState.IDLE, TabState.ELECTING, TabState.CHIEF, TabState.STOPPED]);
+    });
+
+    it('should end a messages() iterator when its signal is aborted', async () => {
+      const chief = new TabChief<Events>(options);
+      const controller = new AbortController();
+      const received: number[] = [];
+      chief.start();
+
+      const done = (async () => {
+        for await (const message of chief.messages('price', { signal: controller.signal })) {
+          received.push(message.data);
+          expect(message.sender).toBe(chief.id);
+        }
+      })();
+
+      chief.postMessage('price', 1);
+      chief.postMessage('price', 2);
+      await vi.advanceTimersByTimeAsync(10);
+      controller.abort();
+      chief.postMessage('price', 3);
+      await done;
+
+      expect(received).toEqual([1, 2]);
+
+      chief.stop();
+    });
+
+    it('should notify observers of states and complete them on stop()', async () => {
+      const chief = new TabChief(options);
+      const store = vi.fn();
+      const observer = { next: vi.fn(), complete: vi.fn() };
+
+      const unsubscribe = chief.subscribe(store);
+      chief['@@observable']().subscribe(observer);
+      chief.start();
+      unsubscribe();
+      await vi.advanceTimersByTimeAsync(600);
+      chief.stop();
+
+      expect(store.mock.calls).toEqual([[TabState.IDLE], [TabState.ELECTING]]);
+      expect(observer.next.mock.calls.map(([state]) => state)).toEqual([
+        TabState.IDLE,
+        TabState.ELECTING,
+        TabState.CHIEF,
+        TabState.STOPPED,
+      ]);
+      expect(observer.complete).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Waiting for elections', () => {
+    const options = { channelName: 'test-waiting', electionTimeout: 500, heartbeatInterval: 100 };
+
+    it('should resolve start() with the Chief once the election has settled', async () => {
+      const chief1 = new TabChief(options);
+      const chief2 = new TabChief(options);
+      const first = chief1.start({ wait: true });
+      await vi.advanceTimersByTimeAsync(600);
+      await expect(first).resolves.toBe(chief1.id);
+
+      const second = chief2.start({ wait: true });
+      await vi.advanceTimersByTimeAsync(600);
+      await expect(second).resolves.toBe(chief1.id);
+      await expect(chief2.whenSettled()).resolves.toBe(chief1.id);
+
+      chief1.stop();
+      chief2.stop();
+    });
+
+    it('should resolve whenChief() and waitForState() once reached', async () => {
+      const chief = new TabChief(options);
+      const becameChief = vi.fn();
+      const stopped = vi.fn();
+      chief.whenChief().then(becameChief);
+      chief.waitForState(TabState.STOPPED).then(stopped);
+
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+      expect(becameChief).toHaveBeenCalled();
+      expect(stopped).not.toHaveBeenCalled();
+
+      chief.stop();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(stopped).toHaveBeenCalled();
+    });
+
+    it('should reject on stop(), abort and timeout', async () => {
+      const chief1 = new TabChief(options);
+      const chief2 = new TabChief(options);
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      const controller = new AbortController();
+      const aborted = chief2.whenChief({ signal: controller.signal });
+      const timedOut = chief2.whenChief({ timeout: 1000 });
+      const stopped = chief2.waitForState(TabState.ELECTING);
+      controller.abort(new Error('aborted'));
+      await expect(aborted).rejects.toThrow('aborted');
+
+      vi.advanceTimersByTime(1000);
+      await expect(timedOut).rejects.toThrow('Timed out waiting for leadership');
+
+      chief2.stop();
+      await expect(stopped).rejects.toThrow('TabChief was stopped');
+      await expect(chief2.whenSettled()).rejects.toThrow('TabChief was stopped');
+
+      chief1.stop();
+    });
+  });
+
+  describe('Metrics', () => {
+    const options = { channelName: 'test-metrics', electionTimeout: 500, heartbeatInterval: 100 };
+
+    it('should count elections, tenures and messages', async () => {
+      const chief1 = new TabChief(options);
+      const chief2 = new TabChief(options);
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      const stats1 = chief1.getStats();
+      expect(stats1.electionsStarted).toBe(1);
+      expect(stats1.electionsWon).toBe(1);
+      expect(stats1.settleTimes).toEqual([500]);
+      expect(stats1.currentTenure).toBe(1100);
+      expect(stats1.messagesSent[MessageType.VICTORY]).toBe(1);
+
+      const stats2 = chief2.getStats();
+      expect(stats2.electionsLost).toBe(1);
+      expect(stats2.currentTenure).toBeNull();
+      expect(stats2.messagesReceived[MessageType.HEARTBEAT]).toBeGreaterThanOrEqual(10);
+      expect(stats2.heartbeatJitter.max).toBe(0);
+
+      chief2.stop();
+      await chief1.stop();
+      expect(chief1.getStats().tenures).toEqual([1100]);
+    });
+
+    it('should report missed heartbeats and timeouts to onMetric callbacks', async () => {
+      const chief = new TabChief(options);
+      const channel = new MockBroadcastChannel('test-metrics');
+      const onMetric = vi.fn();
+      const unsubscribe = chief.onMetric(onMetric);
+      const heartbeat = () =>
+        channel.postMessage({
+          type: MessageType.HEARTBEAT,
+          protocol: PROTOCOL_VERSION,
+          senderId: 'remote-chief',
+          timestamp: Date.now(),
+          term: 1,
+        });
+
+      chief.start();
+      heartbeat();
+      await vi.advanceTimersByTimeAsync(350);
+      heartbeat();
+      await vi.advanceTimersByTimeAsync(600);
+
+      expect(onMetric).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'election.lost', tabId: chief.id, term: 1 })
+      );
+      expect(onMetric).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'heartbeat.missed', value: 2 })
+      );
+      expect(onMetric).toHaveBeenCalledWith(expect.objectContaining({ name: 'heartbeat.timeout' }));
+      expect(chief.getStats()).toMatchObject({ missedHeartbeats: 2, heartbeatTimeouts: 1 });
+
+      unsubscribe();
+      chief.stop();
+      channel.close();
+    });
+  });
+
+  describe('Logging', () => {
+    const createLogger = () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() });
+
+    it('should pass structured entries of every level to a custom logger', async () => {
+      const logger = createLogger();
+      const chief = new TabChief({ channelName: 'test-logging', electionTimeout: 500, logger });
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.stringContaining('Declaring victory'),
+        expect.objectContaining({ tabId: chief.id, state: TabState.ELECTING, term: 1 })
+      );
+      expect(logger.debug).toHaveBeenCalledWith(
+        'Starting heartbeat',
+        expect.objectContaining({ tabId: chief.id, state: TabState.CHIEF, interval: 1000 })
+      );
+
+      chief.stop();
+    });
+
+    it('should only log errors and warnings to the console without debug', () => {
+      const consoleLog = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const consoleInfo = vi.spyOn(console, 'info').mockImplementation(() => {});
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const error = new Error('boom');
+      const chief = new TabChief({ channelName: 'test-logging' });
+      chief.onStateChange(() => {
+        throw error;
+      });
+      chief.start();
+
+      expect(consoleLog).not.toHaveBeenCalled();
+      expect(consoleInfo).not.toHaveBeenCalled();
+      expect(consoleError).toHaveBeenCalledWith(
+        expect.stringContaining('[TabChief:'),
+        'Error in state change callback:',
+        error
+      );
+
+      chief.stop();
+      consoleLog.mockRestore();
+      consoleInfo.mockRestore();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('Task supervision', () => {
+    const options = { channelName: 'test-supervision', electionTimeout: 500, heartbeatInterval: 100 };
+    const silent = { debug() {}, info() {}, warn() {}, error() {} };
+
+    it('should report task, cleanup and callback errors to onError callbacks', async () => {
+      const chief = new TabChief({ ...options, logger: silent });
+      const onError = vi.fn();
+      const taskError = new Error('task');
+      const cleanupError = new Error('cleanup');
+      chief.onError(onError);
+      chief.runExclusive(
+        () => {
+          throw taskError;
+        },
+        { name: 'socket' }
+      );
+      chief.runExclusive(() => () => {
+        throw cleanupError;
+      });
+      chief.onBecomeChief(() => {
+        throw new Error('callback');
+      });
+
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+      chief.stop();
+
+      expect(onError).toHaveBeenCalledWith(taskError, {
+        source: 'task',
+        message: 'Error running exclusive task',
+        tabId: chief.id,
+        term: 1,
+        task: 'socket',
+        failures: 1,
+        willRetry: false,
+      });
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'callback' }),
+        expect.objectContaining({ source: 'callback', message: 'Error in become Chief callback' })
+      );
+      expect(onError).toHaveBeenCalledWith(
+        cleanupError,
+        expect.objectContaining({ source: 'cleanup' })
+      );
+      expect(chief.getTaskHealth()).toEqual([
+        expect.objectContaining({
+          name: 'socket',
+          status: 'failed',
+          failures: 1,
+          lastError: taskError,
+        }),
+        expect.objectContaining({ status: 'idle', failures: 0 }),
+      ]);
+    });
+
+    it('should retry a failing task with exponential backoff', async () => {
+      const chief = new TabChief({ ...options, logger: silent });
+      const cleanup = vi.fn();
+      const task = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('first'))
+        .mockRejectedValueOnce(new Error('second'))
+        .mockResolvedValue(cleanup);
+      chief.runExclusive(task, { retries: 3, retryDelay: 100 });
+
+      chief.start();
+      await vi.advanceTimersByTimeAsync(500);
+      expect(task).toHaveBeenCalledTimes(1);
+      expect(chief.getTaskHealth()[0]).toMatchObject({ status: 'retrying', failures: 1 });
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(task).toHaveBeenCalledTimes(2);
+      expect(chief.getTaskHealth()[0]).toMatchObject({
+        status: 'retrying',
+        failures: 2,
+        nextRetryAt: Date.now() + 200,
+      });
+
+      await vi.advanceTimersByTimeAsync(200);
+      expect(task).toHaveBeenCalledTimes(3);
+      expect(chief.getTaskHealth()[0]).toMatchObject({ status: 'running', failures: 0 });
+
+      chief.stop();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+      expect(chief.getTaskHealth()[0].status).toBe('idle');
+    });
+
+    it('should retry until abdicateAfter is reached with the default retries', async () => {
+      const chief = new TabChief({ ...options, logger: silent });
+      const task = vi.fn(() => {
+        throw new Error('unavailable');
+      });
+      chief.runExclusive(task, { retryDelay: 10, abdicateAfter: 3 });
+
+      chief.start();
+      await vi.advanceTimersByTimeAsync(500);
+      expect(chief.getTaskHealth()[0]).toMatchObject({ status: 'retrying', failures: 1 });
+
+      await vi.advanceTimersByTimeAsync(50);
+      expect(task).toHaveBeenCalledTimes(3);
+      expect(chief.isChief).toBe(false);
+      expect(chief.getTaskHealth()[0]).toMatchObject({ status: 'failed', failures: 3 });
+
+      chief.stop();
+    });
+
+    it('should abdicate after consecutive failures so another tab takes over', async () => {
+      const chief1 = new TabChief({ ...options, logger: silent });
+      const chief2 = new TabChief({ ...options, logger: silent });
+      chief1.runExclusive(
+        () => {
+          throw new Error('unavailable');
+        },
+        { retries: 5, retryDelay: 10, abdicateAfter: 2 }
+      );
+
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(chief1.isChief).toBe(false);
+      expect(chief1.getTaskHealth()[0]).toMatchObject({ status: 'failed', failures: 2 });
+      await vi.advanceTimersByTimeAsync(600);
+      expect(chief2.isChief).toBe(true);
+
+      chief1.stop();
+      chief2.stop();
+    });
+  });
+
+  describe('Checkpoints', () => {
+    const options = { channelName: 'test-checkpoints', electionTimeout: 500, heartbeatInterval: 100 };
+
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should hand checkpoints of the previous Chief to the next one', async () => {
+      const chief1 = new TabChief(options);
+      const chief2 = new TabChief(options);
+      const resumed = vi.fn();
+      const task = async () => {
+        const checkpoint = await chief2.readCheckpoint<number>('cursor');
+        resumed(checkpoint);
+      };
+
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+      chief2.start();
+      chief2.runExclusive(task);
+      await vi.advanceTimersByTimeAsync(150);
+
+      await chief1.checkpoint('cursor', 42);
+      await expect(chief2.checkpoint('cursor', 0)).rejects.toThrow(
+        '[TabChief] Only the Chief can write checkpoint "cursor"'
+      );
+
+      chief1.stop();
+      await vi.advanceTimersByTimeAsync(700);
+
+      expect(chief2.isChief).toBe(true);
+      expect(resumed).toHaveBeenCalledWith({
+        key: 'cursor',
+        value: 42,
+        tabId: chief1.id,
+        term: 1,
+        timestamp: expect.any(Number),
+      });
+      chief2.stop();
+    });
+
+    it('should reject writes from a superseded term', async () => {
+      const store = new LocalStorageCheckpointStore('test-checkpoints');
+      const leaderSince = Date.now();
+      const checkpoint = { key: 'cursor', tabId: 'tab', timestamp: leaderSince };
+      const isLeader = () => true;
+
+      await store.write({ ...checkpoint, value: 2, term: 2 }, leaderSince, isLeader);
+      await expect(
+        store.write({ ...checkpoint, value: 1, term: 1 }, leaderSince, isLeader)
+      ).rejects.toThrow('a newer Chief wrote it in term 2');
+      await store.write({ ...checkpoint, value: 3, term: 2 }, leaderSince, isLeader);
+      expect(await store.read('cursor')).toMatchObject({ value: 3, term: 2 });
+      expect(await store.read('other')).toBeNull();
+
+      // A newer Chief fences every key as soon as it takes over
+      await store.claimTerm(3, leaderSince);
+      await expect(
+        store.write({ ...checkpoint, key: 'other', value: 1, term: 2 }, leaderSince, isLeader)
+      ).rejects.toThrow('a newer Chief took over in term 3');
+      await expect(
+        store.write({ ...checkpoint, value: 4, term: 3 }, leaderSince, () => false)
+      ).rejects.toThrow('the writing tab is no longer Chief');
+
+      // Terms restart in a later session, which may overwrite older records
+      await store.claimTerm(1, leaderSince + 1);
+      await store.write({ ...checkpoint, value: 4, term: 1 }, leaderSince + 1, isLeader);
+      expect(await store.read('cursor')).toMatchObject({ value: 4, term: 1 });
+    });
+
+    it('should reject a write that is stored after leadership moved', async () => {
+      let release = () => {};
+      const stalled = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      const checkpoints = (channelName: string): CheckpointStore => {
+        const store = new LocalStorageCheckpointStore(channelName);
+        return {
+          read: (key) => store.read(key),
+          claimTerm: (term, leaderSince) => store.claimTerm(term, leaderSince),
+          write: async (checkpoint, leaderSince, isLeader) => {
+            await stalled;
+            return store.write(checkpoint, leaderSince, isLeader);
+          },
+        };
+      };
+      const chief1 = new TabChief({ ...options, checkpoints });
+      const chief2 = new TabChief({ ...options, checkpoints });
+
+      chief1.start();
+      await vi.advanceTimersByTimeAsync(600);
+      chief2.start();
+      await vi.advanceTimersByTimeAsync(150);
+
+      const write = chief1.checkpoint('cursor', 1);
+      const rejected = expect(write).rejects.toThrow('the writing tab is no longer Chief');
+      await chief1.abdicate();
+      await vi.advanceTimersByTimeAsync(700);
+      expect(chief2.isChief).toBe(true);
+
+      release();
+      await rejected;
+      expect(await chief2.readCheckpoint('cursor')).toBeNull();
+
+      chief1.stop();
+      chief2.stop();
+    });
+  });
+
+  describe('Versioning', () => {
+    const options = { channelName: 'test-versions', electionTimeout: 500, heartbeatInterval: 100 };
+
+    const sendHeartbeat = (other: MockBroadcastChannel, extra: Record<string, unknown>) => {
+      other.postMessage({
+        type: MessageType.HEARTBEAT,
+        senderId: 'other-tab',
+        timestamp: Date.now(),
+        term: 1,
+        ...extra,
+      });
+    };
+
+    it('should ignore messages of another protocol version and unknown types', async () => {
+      const chief = new TabChief(options);
+      const other = new MockBroadcastChannel('test-versions');
+      chief.start();
+
+      sendHeartbeat(other, { protocol: PROTOCOL_VERSION + 1 });
+      other.postMessage({
+        type: 'FROM_THE_FUTURE',
+        protocol: PROTOCOL_VERSION,
+        senderId: 'other-tab',
+        timestamp: Date.now(),
+      });
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(chief.chiefId).toBeNull();
+      expect(chief.currentState).toBe(TabState.ELECTING);
+
+      other.close();
+      chief.stop();
+    });
+
+    it('should follow a Chief of the 1.0.0 release', async () => {
+      const chief = new TabChief(options);
+      const onConflict = vi.fn();
+      const cleanup = vi.fn();
+      chief.onConflict(onConflict);
+      chief.runExclusive(() => cleanup);
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+      expect(chief.isChief).toBe(true);
+
+      // 1.0.0 tabs send neither a protocol version nor a term
+      const legacy = new MockBroadcastChannel('test-versions');
+      const legacyHeartbeat = () =>
+        legacy.postMessage({ type: MessageType.HEARTBEAT, senderId: 'legacy-tab', timestamp: 0 });
+      legacyHeartbeat();
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(chief.isChief).toBe(false);
+      expect(chief.chiefId).toBe('legacy-tab');
+      expect(cleanup).toHaveBeenCalledTimes(1);
+      expect(onConflict).toHaveBeenCalledWith({
+        chiefId: 'legacy-tab',
+        term: 0,
+        localTerm: 1,
+        yielded: true,
+      });
+
+      for (let i = 0; i < 10; i++) {
+        legacyHeartbeat();
+        await vi.advanceTimersByTimeAsync(100);
+      }
+      expect(chief.currentState).toBe(TabState.FOLLOWER);
+      expect(chief.chiefId).toBe('legacy-tab');
+
+      legacy.postMessage({ type: MessageType.SHUTDOWN, senderId: 'legacy-tab', timestamp: 0 });
+      await vi.advanceTimersByTimeAsync(600);
+      expect(chief.isChief).toBe(true);
+
+      legacy.close();
+      chief.stop();
+    });
+
+    it('should wrap messages of named roles so 1.0.0 tabs ignore them', async () => {
+      const legacy = new MockBroadcastChannel('test-versions');
+      const received: Array<Record<string, unknown>> = [];
+      legacy.onmessage = (event) => received.push(event.data);
+
+      const chief = new TabChief(options);
+      chief.runExclusive('sync', () => {});
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+      expect(chief.isChief).toBe(true);
+      expect(chief.isChiefOf('sync')).toBe(true);
+
+      const victories = received.filter((message) => message.type === MessageType.VICTORY);
+      const roleMessages = received.filter((message) => message.type === MessageType.ROLE);
+      expect(victories).toHaveLength(1);
+      expect(roleMessages).toContainEqual(
+        expect.objectContaining({
+          role: 'sync',
+          message: expect.objectContaining({ type: MessageType.VICTORY }),
+        })
+      );
+
+      legacy.close();
+      chief.stop();
+    });
+
+    it('should report version mismatches once per tab', async () => {
+      const onVersionMismatch = vi.fn();
+      const chief = new TabChief({ ...options, appVersion: '1.2.0' });
+      chief.onVersionMismatch(onVersionMismatch);
+      const other = new MockBroadcastChannel('test-versions');
+      chief.start();
+
+      sendHeartbeat(other, { protocol: PROTOCOL_VERSION, appVersion: '1.10.0' });
+      sendHeartbeat(other, { protocol: PROTOCOL_VERSION, appVersion: '1.10.0' });
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(onVersionMismatch).toHaveBeenCalledTimes(1);
+      expect(onVersionMismatch).toHaveBeenCalledWith({
+        tabId: 'other-tab',
+        appVersion: '1.10.0',
+        localAppVersion: '1.2.0',
+        newer: true,
+      });
+      // The default policy keeps cooperating
+      expect(chief.chiefId).toBe('other-tab');
+
+      other.close();
+      chief.stop();
+    });
+
+    it('should ignore tabs of another app version with the ignore policy', async () => {
+      const chief = new TabChief({ ...options, appVersion: '1.0.0', versionPolicy: 'ignore' });
+      const other = new MockBroadcastChannel('test-versions');
+      chief.start();
+
+      sendHeartbeat(other, { protocol: PROTOCOL_VERSION, appVersion: '2.0.0' });
+      await vi.advanceTimersByTimeAsync(600);
+
+      expect(chief.isChief).toBe(true);
+
+      other.close();
+      chief.stop();
+    });
+
+    it('should hand leadership to the newest app version with prefer-newest', async () => {
+      const oldTab = new TabChief({
+        ...options,
+        appVersion: '1.0.0',
+        versionPolicy: 'prefer-newest',
+      });
+      const newTab = new TabChief({
+        ...options,
+        appVersion: '1.1.0',
+        versionPolicy: 'prefer-newest',
+      });
+      const cleanup = vi.fn();
+      oldTab.runExclusive(() => cleanup);
+
+      oldTab.start();
+      await vi.advanceTimersByTimeAsync(600);
+      expect(oldTab.isChief).toBe(true);
+
+      newTab.start();
+      await vi.advanceTimersByTimeAsync(250);
+
+      expect(newTab.isChief).toBe(true);
+      expect(oldTab.isChief).toBe(false);
+      expect(cleanup).toHaveBeenCalledTimes(1);
+
+      oldTab.stop();
+      newTab.stop();
+    });
+  });
+
+  describe('Page lifecycle', () => {
+    const options = { channelName: 'test-lifecycle', electionTimeout: 500, heartbeatInterval: 100 };
+
+    it('should step down when frozen and rejoin with a fresh election on resume', async () => {
+      const chief = new TabChief(options);
+      const cleanup = vi.fn();
+      chief.runExclusive(() => cleanup);
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+      expect(chief.isChief).toBe(true);
+
+      const received: ChannelMessage[] = [];
+      const other = new MockBroadcastChannel('test-lifecycle');
+      other.onmessage = (event) => received.push(event.data);
+
+      document.dispatchEvent(new Event('freeze'));
+      await vi.advanceTimersByTimeAsync(10);
+
+      expect(cleanup).toHaveBeenCalledTimes(1);
+      expect(chief.currentState).toBe(TabState.STOPPED);
+      expect(received).toContainEqual(expect.objectContaining({ type: MessageType.SHUTDOWN }));
+
+      document.dispatchEvent(new Event('resume'));
+      expect(chief.currentState).toBe(TabState.ELECTING);
+
+      await vi.advanceTimersByTimeAsync(600);
+      expect(chief.isChief).toBe(true);
+      expect(chief.term).toBe(2);
+
+      other.close();
+      chief.stop();
+    });
+
+    it('should restart only for pages restored from the back/forward cache', async () => {
+      const chief = new TabChief(options);
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      window.dispatchEvent(Object.assign(new Event('pagehide'), { persisted: true }));
+      expect(chief.currentState).toBe(TabState.STOPPED);
+
+      window.dispatchEvent(Object.assign(new Event('pageshow'), { persisted: false }));
+      expect(chief.currentState).toBe(TabState.STOPPED);
+
+      window.dispatchEvent(Object.assign(new Event('pageshow'), { persisted: true }));
+      expect(chief.currentState).toBe(TabState.ELECTING);
+
+      await vi.advanceTimersByTimeAsync(600);
+      expect(chief.isChief).toBe(true);
+
+      chief.stop();
+    });
+
+    it('should stay stopped if stop() is called while suspended', async () => {
+      const chief = new TabChief(options);
+      chief.start();
+
+      document.dispatchEvent(new Event('freeze'));
+      chief.stop();
+      document.dispatchEvent(new Event('resume'));
+
+      expect(chief.currentState).toBe(TabState.STOPPED);
+    });
+  });
+
+  describe('Heartbeat timing', () => {
+    const options = { channelName: 'test-timing', electionTimeout: 500, heartbeatInterval: 100 };
+
+    const heartbeatFrom = (channel: MockBroadcastChannel, interval?: number) =>
+      channel.postMessage({
+        type: MessageType.HEARTBEAT,
+        protocol: PROTOCOL_VERSION,
+        senderId: 'remote-chief',
+        timestamp: Date.now(),
+        term: 1,
+        interval,
+      });
+
+    afterEach(() => {
+      delete (globalThis as { Worker?: unknown }).Worker;
+      MockWorker.instances = [];
+      delete (document as { visibilityState?: DocumentVisibilityState }).visibilityState;
+    });
+
+    it('should drive heartbeats from a worker clock', async () => {
+      vi.stubGlobal('Worker', MockWorker);
+      const chief = new TabChief({ ...options, timers: 'worker' });
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+      expect(chief.isChief).toBe(true);
+
+      const [worker] = MockWorker.instances;
+      expect(worker.received).toContainEqual(
+        expect.objectContaining({ op: 'interval', delay: 100 })
+      );
+
+      let heartbeats = 0;
+      const other = new MockBroadcastChannel('test-timing');
+      other.onmessage = (event) => {
+        if (event.data.type === MessageType.HEARTBEAT) heartbeats++;
+      };
+      await vi.advanceTimersByTimeAsync(1050);
+      expect(heartbeats).toBeGreaterThanOrEqual(10);
+
+      chief.stop();
+      expect(worker.terminated).toBe(true);
+      other.close();
+    });
+
+    it('should fall back to main-thread timers without Worker support', async () => {
+      const chief = new TabChief({ ...options, timers: 'worker' });
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      expect(chief.isChief).toBe(true);
+      chief.stop();
+    });
+
+    it('should wait for the slower heartbeats a backgrounded Chief announces', async () => {
+      const tab = new TabChief({ ...options, adaptiveTimeouts: true });
+      const other = new MockBroadcastChannel('test-timing');
+      tab.start();
+      heartbeatFrom(other, 2000);
+      await vi.advanceTimersByTimeAsync(10);
+      expect(tab.chiefId).toBe('remote-chief');
+
+      // Well past electionTimeout, but within 3 announced heartbeats
+      await vi.advanceTimersByTimeAsync(5500);
+      expect(tab.currentState).toBe(TabState.FOLLOWER);
+      expect(tab.chiefId).toBe('remote-chief');
+
+      await vi.advanceTimersByTimeAsync(600);
+      expect(tab.currentState).toBe(TabState.ELECTING);
+
+      other.close();
+      tab.stop();
+    });
+
+    it("should learn the Chief's actual heartbeat cadence", async () => {
+      const tab = new TabChief({ ...options, adaptiveTimeouts: true });
+      const other = new MockBroadcastChannel('test-timing');
+      tab.start();
+      heartbeatFrom(other);
+      await vi.advanceTimersByTimeAsync(300);
+      heartbeatFrom(other);
+      await vi.advanceTimersByTimeAsync(10);
+
+      // Heartbeats arrive every 300ms, so the timeout grows to 900ms
+      await vi.advanceTimersByTimeAsync(700);
+      expect(tab.currentState).toBe(TabState.FOLLOWER);
+
+      await vi.advanceTimersByTimeAsync(200);
+      expect(tab.currentState).toBe(TabState.ELECTING);
+
+      other.close();
+      tab.stop();
+    });
+
+    it('should announce slower heartbeats while the Chief is hidden', async () => {
+      const chief = new TabChief({ ...options, adaptiveTimeouts: true });
+      chief.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      const received: ChannelMessage[] = [];
+      const other = new MockBroadcastChannel('test-timing');
+      other.onmessage = (event) => received.push(event.data);
+
+      Object.defineProperty(document, 'visibilityState', { value: 'hidden', configurable: true });
+      document.dispatchEvent(new Event('visibilitychange'));
+      await vi.advanceTimersByTimeAsync(10);
+      expect(received).toContainEqual(
+        expect.objectContaining({ type: MessageType.HEARTBEAT, visible: false, interval: 60000 })
+      );
+
+      received.length = 0;
+      Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true });
+      document.dispatchEvent(new Event('visibilitychange'));
+      await vi.advanceTimersByTimeAsync(10);
+      expect(received).toContainEqual(
+        expect.objectContaining({ type: MessageType.HEARTBEAT, visible: true, interval: 100 })
+      );
+
+      other.close();
+      chief.stop();
+    });
+  });
+
+  describe('SharedWorker coordinator', () => {
+    const silent = { debug() {}, info() {}, warn() {}, error() {} };
+    const options = {
+      channelName: 'test-coordinator',
+      electionTimeout: 500,
+      heartbeatInterval: 100,
+      coordinator: () => new MockSharedWorker() as unknown as SharedWorker,
+    };
+
+    let coordinator: TabChiefCoordinator;
+
+    beforeEach(() => {
+      (globalThis as { SharedWorker?: unknown }).SharedWorker = MockSharedWorker;
+      coordinator = new TabChiefCoordinator({ heartbeatInterval: 100 });
+      MockSharedWorker.coordinator = coordinator;
+    });
+
+    afterEach(async () => {
+      delete (globalThis as { SharedWorker?: unknown }).SharedWorker;
+      MockSharedWorker.coordinator = null;
+      await coordinator.stop();
+    });
+
+    it('should follow the coordinator instead of electing a Chief', async () => {
+      const coordinatorTask = vi.fn();
+      const tabTask = vi.fn();
+      coordinator.runExclusive(coordinatorTask);
+      coordinator.start();
+      expect(coordinatorTask).toHaveBeenCalledTimes(1);
+
+      const tab1 = new TabChief(options);
+      const tab2 = new TabChief(options);
+      tab1.runExclusive(tabTask);
+      tab2.runExclusive(tabTask);
+      tab1.start();
+      tab2.start();
+      expect(coordinator.connections).toBe(2);
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(tab1.currentState).toBe(TabState.FOLLOWER);
+      expect(tab2.currentState).toBe(TabState.FOLLOWER);
+      expect(tab1.chiefId).toBe(coordinator.id);
+      expect(tab2.chiefId).toBe(coordinator.id);
+      expect(tabTask).not.toHaveBeenCalled();
+
+      tab1.stop();
+      await vi.advanceTimersByTimeAsync(10);
+      expect(coordinator.connections).toBe(1);
+
+      tab2.stop();
+    });
+
+    it('should scope checkpoints of the coordinator to its channelName', async () => {
+      localStorage.clear();
+      coordinator = new TabChiefCoordinator({
+        channelName: options.channelName,
+        heartbeatInterval: 100,
+      });
+      MockSharedWorker.coordinator = coordinator;
+      coordinator.start();
+      await coordinator.checkpoint('cursor', 42);
+
+      const tab = new TabChief(options);
+      tab.start();
+      const checkpoint = await tab.readCheckpoint<number>('cursor');
+      expect(checkpoint?.value).toBe(42);
+      expect(checkpoint?.tabId).toBe(coordinator.id);
+
+      tab.stop();
+    });
+
+    it('should relay messages between tabs and the coordinator', async () => {
+      coordinator.start();
+      const coordinatorCallback = vi.fn();
+      const tabCallback = vi.fn();
+      coordinator.onMessage(coordinatorCallback);
+      coordinator.handle('ping', () => 'pong');
+
+      const tab1 = new TabChief(options);
+      const tab2 = new TabChief(options);
+      tab2.onMessage(tabCallback);
+      tab1.start();
+      tab2.start();
+      await vi.advanceTimersByTimeAsync(10);
+
+      tab1.postMessage('hello');
+      await vi.advanceTimersByTimeAsync(10);
+      expect(tabCallback).toHaveBeenCalledWith('hello', expect.anything(), tab1.id);
+      expect(coordinatorCallback).toHaveBeenCalledWith('hello', expect.anything(), tab1.id);
+
+      coordinator.postMessage('update');
+      tab1.sendToChief('for the coordinator');
+      await vi.advanceTimersByTimeAsync(10);
+      expect(tabCallback).toHaveBeenCalledWith('update', expect.anything(), coordinator.id);
+      expect(coordinatorCallback).toHaveBeenCalledWith(
+        'for the coordinator',
+        expect.anything(),
+        tab1.id
+      );
+
+      const response = tab2.request('ping');
+      await vi.advanceTimersByTimeAsync(10);
+      await expect(response).resolves.toBe('pong');
+
+      tab1.stop();
+      tab2.stop();
+    });
+
+    it('should fall back to tab election without SharedWorker support', async () => {
+      delete (globalThis as { SharedWorker?: unknown }).SharedWorker;
+      const task = vi.fn();
+      const tab = new TabChief(options);
+      tab.runExclusive(task);
+      tab.start();
+      await vi.advanceTimersByTimeAsync(600);
+
+      expect(tab.isChief).toBe(true);
+      expect(task).toHaveBeenCalledTimes(1);
+      expect(coordinator.connections).toBe(0);
+
+      tab.stop();
+    });
+
+    it('should fall back to tab election when the coordinator never answers', async () => {
+      MockSharedWorker.coordinator = null;
+      const warn = vi.fn();
+      const task = vi.fn();
+      const tab = new TabChief({ ...options, logger: { ...silent, warn } });
+      tab.runExclusive(task);
+      tab.start();
+
+      await vi.advanceTimersByTimeAsync(400);
+      expect(tab.currentState).toBe(TabState.ELECTING);
+
+      await vi.advanceTimersByTimeAsync(700);
+      expect(warn).toHaveBeenCalledWith(
+        'Coordinator did not answer, falling back to tab election',
+        expect.objectContaining({ timeout: 500 })
+      );
+      expect(tab.isChief).toBe(true);
+      expect(task).toHaveBeenCalledTimes(1);
+
+      tab.stop();
+    });
+
+    it('should fall back to tab election when the worker fails', async () => {
+      MockSharedWorker.coordinator = null;
+      let worker: MockSharedWorker | null = null;
+      const tab = new TabChief({
+        ...options,
+        logger: silent,
+        coordinator: () => {
+          worker = new MockSharedWorker();
+          return worker as unknown as SharedWorker;
+        },
+      });
+      tab.start();
+
+      worker!.dispatchEvent(new Event('error'));
+      await vi.advanceTimersByTimeAsync(600);
+
+      expect(tab.isChief).toBe(true);
+
+      tab.stop();
+    });
+  });
 });
@@ -1,25 +1,42 @@
-import { defineConfig } from 'tsup';
+import { defineConfig, Options } from 'tsup';
 
-export default defineConfig({
-  entry: ['src/index.ts'],
-  format: ['cjs', 'esm', 'iife'],
-  dts: true,
-  splitting: false,
+function outExtension({ format }: { format: string }): { js: string; dts?: string } {
+  switch (format) {
+    case 'cjs':
+      return { js: '.js', dts: '.d.ts' };
+    case 'esm':
+      return { js: '.mjs', dts: '.d.mts' };
+    case 'iife':
+      return { js: '.iife.js' };
+    default:
+      return { js: '.js' };
+  }
+}
+
+const shared: Options = {
   sourcemap: true,
-  clean: true,
   minify: true,
   treeshake: true,
-  globalName: 'TabChief',
-  outExtension({ format }) {
-    switch (format) {
-      case 'cjs':
-        return { js: '.js', dts: '.d.ts' };
-      case 'esm':
-        return { js: '.mjs', dts: '.d.mts' };
-      case 'iife':
-        return { js: '.iife.js' };
-      default:
-        return { js: '.js' };
-    }
+  outExtension,
+};
+
+export default defineConfig([
+  // Package entries; splitting shares a single copy of TabChief between them
+  {
+    ...shared,
+    entry: ['src/index.ts', 'src/coordinator.ts', 'src/react.ts'],
+    external: ['react'],
+    format: ['cjs', 'esm'],
+    dts: true,
+    splitting: true,
+    // Both builds run in parallel; keep the browser bundle written by the other one
+    clean: ['!index.iife.js*'],
+  },
+  // Browser bundle for CDN usage; the React bindings and the coordinator are not included
+  {
+    ...shared,
+    entry: ['src/index.ts'],
+    format: ['iife'],
+    globalName: 'TabChief',
   },
-});
+]);